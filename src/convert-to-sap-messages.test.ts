@@ -1,6 +1,13 @@
 import { describe, it, expect } from "vitest";
+import {
+  InvalidArgumentError,
+  UnsupportedFunctionalityError,
+} from "@ai-sdk/provider";
 import { convertToSAPMessages } from "./convert-to-sap-messages";
-import type { LanguageModelV2Prompt } from "@ai-sdk/provider";
+import type {
+  LanguageModelV2Prompt,
+  LanguageModelV2ToolResultOutput,
+} from "@ai-sdk/provider";
 
 describe("convertToSAPMessages", () => {
   it("should convert system message", () => {
@@ -61,6 +68,184 @@ describe("convertToSAPMessages", () => {
     });
   });
 
+  it("should encode binary images as base64", () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+    const image = (data: unknown, mediaType = "image/png") =>
+      convertToSAPMessages([
+        {
+          role: "user",
+          content: [
+            { type: "file", mediaType, data: data as Uint8Array },
+            { type: "text", text: "Describe" },
+          ],
+        },
+      ])[0].content;
+
+    const expected = [
+      {
+        type: "image_url",
+        image_url: { url: "data:image/png;base64,iVBORw0K" },
+      },
+      { type: "text", text: "Describe" },
+    ];
+    expect(image(png)).toEqual(expected);
+    expect(image(png.buffer)).toEqual(expected);
+    // The AI SDK reports image/* when it cannot detect the type
+    expect(image(png, "image/*")).toEqual(expected);
+    expect(image("iVBORw0K", "image/*")).toEqual(expected);
+  });
+
+  it("should keep the media type of images with malformed base64", () => {
+    const result = convertToSAPMessages([
+      {
+        role: "user",
+        content: [{ type: "file", mediaType: "image/*", data: "iVBORw0K1" }],
+      },
+    ]);
+
+    expect(result[0].content).toEqual([
+      {
+        type: "image_url",
+        image_url: { url: "data:image/*;base64,iVBORw0K1" },
+      },
+    ]);
+  });
+
+  it("should pass image URLs and the image detail", () => {
+    const prompt: LanguageModelV2Prompt = [
+      {
+        role: "user",
+        content: [
+          {
+            type: "file",
+            mediaType: "image/jpeg",
+            data: new URL("https://example.com/cat.jpg"),
+            providerOptions: { "sap-ai": { imageDetail: "low" } },
+          },
+          { type: "text", text: "Describe" },
+        ],
+      },
+    ];
+
+    const result = convertToSAPMessages(prompt);
+
+    expect(result[0].content).toEqual([
+      {
+        type: "image_url",
+        image_url: { url: "https://example.com/cat.jpg", detail: "low" },
+      },
+      { type: "text", text: "Describe" },
+    ]);
+  });
+
+  it("should reject unknown image details", () => {
+    const prompt: LanguageModelV2Prompt = [
+      {
+        role: "user",
+        content: [
+          {
+            type: "file",
+            mediaType: "image/png",
+            data: "iVBORw0K",
+            providerOptions: { "sap-ai": { imageDetail: "medium" } },
+          },
+        ],
+      },
+    ];
+
+    expect(() => convertToSAPMessages(prompt)).toThrow(InvalidArgumentError);
+  });
+
+  it("should convert PDF documents to file content", () => {
+    const prompt: LanguageModelV2Prompt = [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Summarize the invoice" },
+          {
+            type: "file",
+            mediaType: "application/pdf",
+            filename: "invoice.pdf",
+            data: new Uint8Array([37, 80, 68, 70]),
+          },
+        ],
+      },
+    ];
+
+    const result = convertToSAPMessages(prompt);
+
+    expect(result[0]).toEqual({
+      role: "user",
+      content: [
+        { type: "text", text: "Summarize the invoice" },
+        {
+          type: "file",
+          file: {
+            file_data: "data:application/pdf;base64,JVBERg==",
+            filename: "invoice.pdf",
+          },
+        },
+      ],
+    });
+  });
+
+  it("should inline text files as text", () => {
+    const prompt: LanguageModelV2Prompt = [
+      {
+        role: "user",
+        content: [
+          {
+            type: "file",
+            mediaType: "text/csv",
+            filename: "orders.csv",
+            data: new TextEncoder().encode("id,total\n1,9.99"),
+          },
+          {
+            type: "file",
+            mediaType: "text/plain",
+            data: btoa("Plain notes"),
+          },
+        ],
+      },
+    ];
+
+    const result = convertToSAPMessages(prompt);
+
+    expect(result[0]).toEqual({
+      role: "user",
+      content: [
+        { type: "text", text: "orders.csv:\nid,total\n1,9.99" },
+        { type: "text", text: "Plain notes" },
+      ],
+    });
+  });
+
+  it("should reject inputs the model cannot read", () => {
+    const file = (mediaType: string): LanguageModelV2Prompt => [
+      {
+        role: "user",
+        content: [{ type: "file", mediaType, data: "AAAA" }],
+      },
+    ];
+    const options = {
+      modelId: "mistralai--mistral-large-instruct",
+      supportsImages: false,
+      supportsDocuments: false,
+    };
+
+    expect(() =>
+      convertToSAPMessages(file("application/pdf"), options),
+    ).toThrow(
+      "'application/pdf documents for mistralai--mistral-large-instruct' functionality not supported.",
+    );
+    expect(() => convertToSAPMessages(file("image/png"), options)).toThrow(
+      UnsupportedFunctionalityError,
+    );
+    expect(() => convertToSAPMessages(file("audio/wav"))).toThrow(
+      "'File type audio/wav' functionality not supported.",
+    );
+  });
+
   it("should convert assistant message with text", () => {
     const prompt: LanguageModelV2Prompt = [
       {
@@ -113,6 +298,37 @@ describe("convertToSAPMessages", () => {
     });
   });
 
+  it("should convert assistant reasoning with signatures", () => {
+    const prompt: LanguageModelV2Prompt = [
+      {
+        role: "assistant",
+        content: [
+          {
+            type: "reasoning",
+            text: "The user wants the weather.",
+            providerOptions: { "sap-ai": { signature: "sig-1" } },
+          },
+          { type: "reasoning", text: "Use the tool." },
+          { type: "text", text: "Let me check." },
+        ],
+      },
+    ];
+
+    const result = convertToSAPMessages(prompt);
+
+    expect(result).toEqual([
+      {
+        role: "assistant",
+        content: "Let me check.",
+        tool_calls: undefined,
+        reasoning_content: [
+          { content: "The user wants the weather.", signature: "sig-1" },
+          { content: "Use the tool." },
+        ],
+      },
+    ]);
+  });
+
   it("should convert tool result message", () => {
     const prompt: LanguageModelV2Prompt = [
       {
@@ -134,10 +350,116 @@ describe("convertToSAPMessages", () => {
     expect(result[0]).toEqual({
       role: "tool",
       tool_call_id: "call_123",
-      content: '{"type":"json","value":{"weather":"sunny"}}',
+      content: '{"weather":"sunny"}',
     });
   });
 
+  it("should convert text and error tool results", () => {
+    const result = (output: LanguageModelV2ToolResultOutput) =>
+      convertToSAPMessages([
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: "call_1",
+              toolName: "get_weather",
+              output,
+            },
+          ],
+        },
+      ])[0].content;
+
+    expect(result({ type: "text", value: "Sunny, 25°C" })).toBe("Sunny, 25°C");
+    expect(result({ type: "error-text", value: "City not found" })).toBe(
+      "Error: City not found",
+    );
+    expect(result({ type: "error-json", value: { code: 404 } })).toBe(
+      'Error: {"code":404}',
+    );
+  });
+
+  it("should send files returned by tools in a user message", () => {
+    const prompt: LanguageModelV2Prompt = [
+      {
+        role: "tool",
+        content: [
+          {
+            type: "tool-result",
+            toolCallId: "call_1",
+            toolName: "take_screenshot",
+            output: {
+              type: "content",
+              value: [
+                { type: "text", text: "Screenshot of the dashboard" },
+                { type: "media", mediaType: "image/png", data: "iVBORw0K" },
+              ],
+            },
+          },
+          {
+            type: "tool-result",
+            toolCallId: "call_2",
+            toolName: "get_time",
+            output: { type: "text", value: "12:00" },
+          },
+        ],
+      },
+    ];
+
+    const result = convertToSAPMessages(prompt);
+
+    expect(result).toEqual([
+      {
+        role: "tool",
+        tool_call_id: "call_1",
+        content:
+          "Screenshot of the dashboard\n\n(The returned files follow in the next message.)",
+      },
+      { role: "tool", tool_call_id: "call_2", content: "12:00" },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Files returned by take_screenshot (call_1):" },
+          {
+            type: "image_url",
+            image_url: { url: "data:image/png;base64,iVBORw0K" },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should reject tool result files the model cannot read", () => {
+    const prompt = (mediaType: string): LanguageModelV2Prompt => [
+      {
+        role: "tool",
+        content: [
+          {
+            type: "tool-result",
+            toolCallId: "call_1",
+            toolName: "export",
+            output: {
+              type: "content",
+              value: [{ type: "media", mediaType, data: "AAAA" }],
+            },
+          },
+        ],
+      },
+    ];
+
+    expect(() =>
+      convertToSAPMessages(prompt("image/png"), {
+        modelId: "mistralai--mistral-large-instruct",
+        supportsImages: false,
+      }),
+    ).toThrow(
+      "'Image tool results for mistralai--mistral-large-instruct' functionality not supported.",
+    );
+    expect(() => convertToSAPMessages(prompt("audio/wav"))).toThrow(
+      "'Tool result media type audio/wav' functionality not supported.",
+    );
+  });
+
   it("should convert full conversation", () => {
     const prompt: LanguageModelV2Prompt = [
       { role: "system", content: "You are helpful." },
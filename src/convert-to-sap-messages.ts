@@ -1,26 +1,243 @@
 import {
+  InvalidArgumentError,
+  LanguageModelV2DataContent,
+  LanguageModelV2FilePart,
   LanguageModelV2Prompt,
+  LanguageModelV2ToolResultOutput,
   UnsupportedFunctionalityError,
 } from "@ai-sdk/provider";
+import {
+  convertBase64ToUint8Array,
+  convertUint8ArrayToBase64,
+} from "@ai-sdk/provider-utils";
 import type {
   ChatMessage,
   SystemChatMessage,
   UserChatMessage,
   AssistantChatMessage,
   ToolChatMessage,
+  ReasoningBlock,
 } from "@sap-ai-sdk/orchestration";
+import { sniffImageMediaType } from "./sap-ai-images";
 
 /**
  * User chat message content item for multi-modal messages.
  */
 interface UserContentItem {
-  type: "text" | "image_url";
+  type: "text" | "image_url" | "file";
   text?: string;
   image_url?: {
     url: string;
+    detail?: ImageDetail;
+  };
+  file?: {
+    file_data: string;
+    filename?: string;
   };
 }
 
+/**
+ * Resolution at which the model processes an image.
+ */
+type ImageDetail = "low" | "high" | "auto";
+
+/**
+ * Input types accepted by the target model.
+ * Inputs the model cannot take are rejected with an `UnsupportedFunctionalityError`.
+ */
+export interface SAPMessageConversionOptions {
+  /** ID of the target model, used in error messages */
+  modelId?: string;
+
+  /**
+   * Whether the model accepts image inputs.
+   * @default true
+   */
+  supportsImages?: boolean;
+
+  /**
+   * Whether the model accepts PDF documents.
+   * @default true
+   */
+  supportsDocuments?: boolean;
+}
+
+/**
+ * Media types of documents sent as file content.
+ * @internal
+ */
+const DOCUMENT_MEDIA_TYPES = new Set(["application/pdf"]);
+
+/**
+ * Returns binary file content as bytes.
+ * `ArrayBuffer`s are not part of the prompt type, but pass through untyped callers.
+ * @internal
+ */
+function toBytes(data: Uint8Array | ArrayBuffer): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+/**
+ * Returns file data as base64 data URL, or the URL for remote files.
+ * @internal
+ */
+function toFileData(data: LanguageModelV2DataContent, mediaType: string) {
+  if (data instanceof URL) {
+    return data.toString();
+  }
+
+  const base64 =
+    typeof data === "string" ? data : convertUint8ArrayToBase64(toBytes(data));
+  return `data:${mediaType};base64,${base64}`;
+}
+
+/**
+ * Returns the media type of an image, detecting it from the content when the
+ * AI SDK only reports `image/*`.
+ * @internal
+ */
+function getImageMediaType(
+  mediaType: string,
+  data: LanguageModelV2DataContent,
+): string {
+  if (mediaType !== "image/*" || data instanceof URL) {
+    return mediaType;
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes =
+      typeof data === "string"
+        ? convertBase64ToUint8Array(data.slice(0, 24))
+        : toBytes(data);
+  } catch {
+    // Malformed base64 is passed on, the model reports it
+    return mediaType;
+  }
+  return sniffImageMediaType(bytes) ?? mediaType;
+}
+
+/**
+ * Reads the image detail from `providerOptions['sap-ai'].imageDetail` of a part.
+ * @internal
+ */
+function getImageDetail(
+  part: LanguageModelV2FilePart,
+): ImageDetail | undefined {
+  const detail = part.providerOptions?.["sap-ai"]?.imageDetail;
+
+  if (detail === undefined) {
+    return undefined;
+  }
+  if (detail !== "low" && detail !== "high" && detail !== "auto") {
+    throw new InvalidArgumentError({
+      argument: "providerOptions['sap-ai'].imageDetail",
+      message: `Image detail must be 'low', 'high' or 'auto', got ${JSON.stringify(detail)}`,
+    });
+  }
+  return detail;
+}
+
+/**
+ * Decodes the content of a text file.
+ * @internal
+ */
+function decodeText(data: LanguageModelV2DataContent): string {
+  if (data instanceof URL) {
+    throw new UnsupportedFunctionalityError({
+      functionality: "Text file URLs",
+    });
+  }
+
+  return new TextDecoder().decode(
+    typeof data === "string" ? convertBase64ToUint8Array(data) : data,
+  );
+}
+
+/**
+ * Converts a tool output to the text of a SAP tool message and the media
+ * files it returned.
+ * @internal
+ */
+function convertToolOutput(output: LanguageModelV2ToolResultOutput): {
+  text: string;
+  media: { data: string; mediaType: string }[];
+} {
+  switch (output.type) {
+    case "text":
+      return { text: output.value, media: [] };
+    case "json":
+      return { text: JSON.stringify(output.value), media: [] };
+    // Tool messages have no error flag, the prefix tells the model that the call failed
+    case "error-text":
+      return { text: `Error: ${output.value}`, media: [] };
+    case "error-json":
+      return { text: `Error: ${JSON.stringify(output.value)}`, media: [] };
+    case "content": {
+      const texts: string[] = [];
+      const media: { data: string; mediaType: string }[] = [];
+
+      for (const item of output.value) {
+        if (item.type === "text") {
+          texts.push(item.text);
+        } else {
+          media.push({ data: item.data, mediaType: item.mediaType });
+        }
+      }
+
+      if (media.length > 0) {
+        texts.push("(The returned files follow in the next message.)");
+      }
+      return { text: texts.join("\n\n"), media };
+    }
+  }
+}
+
+/**
+ * Converts a file returned by a tool to user message content.
+ * @internal
+ */
+function convertToolMedia(
+  media: { data: string; mediaType: string },
+  options: SAPMessageConversionOptions,
+  model: string,
+): UserContentItem {
+  if (media.mediaType.startsWith("image/")) {
+    if (options.supportsImages === false) {
+      throw new UnsupportedFunctionalityError({
+        functionality: `Image tool results for ${model}`,
+      });
+    }
+
+    return {
+      type: "image_url",
+      image_url: {
+        url: toFileData(
+          media.data,
+          getImageMediaType(media.mediaType, media.data),
+        ),
+      },
+    };
+  }
+
+  if (DOCUMENT_MEDIA_TYPES.has(media.mediaType)) {
+    if (options.supportsDocuments === false) {
+      throw new UnsupportedFunctionalityError({
+        functionality: `${media.mediaType} tool results for ${model}`,
+      });
+    }
+
+    return {
+      type: "file",
+      file: { file_data: toFileData(media.data, media.mediaType) },
+    };
+  }
+
+  throw new UnsupportedFunctionalityError({
+    functionality: `Tool result media type ${media.mediaType}`,
+  });
+}
+
 /**
  * Converts Vercel AI SDK prompt format to SAP AI SDK ChatMessage format.
  *
@@ -30,19 +247,26 @@ interface UserContentItem {
  *
  * **Supported Features:**
  * - Text messages (system, user, assistant)
- * - Multi-modal messages (text + images)
- * - Tool calls and tool results
+ * - Multi-modal messages (text + images), with the image detail from
+ *   `providerOptions['sap-ai'].imageDetail` (`'low'`, `'high'` or `'auto'`)
+ * - PDF documents, and text files (`text/*`, e.g. CSV) inlined as text
+ * - Tool calls and tool results; error results are prefixed with `Error: `,
+ *   files returned by tools follow the tool messages as a user message
+ * - Assistant reasoning, including signatures from `providerOptions['sap-ai'].signature`
  * - Conversation history
  *
  * **Limitations:**
- * - Images must be in data URL format or accessible HTTP URLs
- * - Audio messages are not supported
- * - File attachments (non-image) are not supported
+ * - Image URLs are passed on; the provider downloads them beforehand if
+ *   `imageInlining` is configured
+ * - Audio and other binary file types are not supported
+ * - Images and documents are rejected for models that do not accept them
  *
  * @param prompt - The Vercel AI SDK prompt to convert
+ * @param options - Input types accepted by the target model
  * @returns Array of SAP AI SDK compatible ChatMessage objects
  *
  * @throws {UnsupportedFunctionalityError} When unsupported message types are encountered
+ * @throws {InvalidArgumentError} When an image detail is not supported
  *
  * @example
  * ```typescript
@@ -76,8 +300,10 @@ interface UserContentItem {
  */
 export function convertToSAPMessages(
   prompt: LanguageModelV2Prompt,
+  options: SAPMessageConversionOptions = {},
 ): ChatMessage[] {
   const messages: ChatMessage[] = [];
+  const model = options.modelId ?? "the model";
 
   for (const message of prompt) {
     switch (message.role) {
@@ -104,22 +330,55 @@ export function convertToSAPMessages(
               break;
             }
             case "file": {
-              // SAP AI Core only supports image files
+              // Text files (plain text, CSV, ...) are read by every model
+              if (part.mediaType.startsWith("text/")) {
+                const text = decodeText(part.data);
+                contentParts.push({
+                  type: "text",
+                  text: part.filename ? `${part.filename}:\n${text}` : text,
+                });
+                break;
+              }
+
+              if (DOCUMENT_MEDIA_TYPES.has(part.mediaType)) {
+                if (options.supportsDocuments === false) {
+                  throw new UnsupportedFunctionalityError({
+                    functionality: `${part.mediaType} documents for ${model}`,
+                  });
+                }
+
+                contentParts.push({
+                  type: "file",
+                  file: {
+                    file_data: toFileData(part.data, part.mediaType),
+                    ...(part.filename ? { filename: part.filename } : {}),
+                  },
+                });
+                break;
+              }
+
               if (!part.mediaType.startsWith("image/")) {
                 throw new UnsupportedFunctionalityError({
-                  functionality: "Only image files are supported",
+                  functionality: `File type ${part.mediaType}`,
+                });
+              }
+
+              if (options.supportsImages === false) {
+                throw new UnsupportedFunctionalityError({
+                  functionality: `Image inputs for ${model}`,
                 });
               }
 
-              const imageUrl =
-                part.data instanceof URL
-                  ? part.data.toString()
-                  : `data:${part.mediaType};base64,${String(part.data)}`;
+              const detail = getImageDetail(part);
 
               contentParts.push({
                 type: "image_url",
                 image_url: {
-                  url: imageUrl,
+                  url: toFileData(
+                    part.data,
+                    getImageMediaType(part.mediaType, part.data),
+                  ),
+                  ...(detail ? { detail } : {}),
                 },
               });
               break;
@@ -151,6 +410,7 @@ export function convertToSAPMessages(
 
       case "assistant": {
         let text = "";
+        const reasoning: ReasoningBlock[] = [];
         const toolCalls: {
           id: string;
           type: "function";
@@ -163,6 +423,15 @@ export function convertToSAPMessages(
               text += part.text;
               break;
             }
+            case "reasoning": {
+              // Anthropic requires the signature to accept earlier thinking
+              const signature = part.providerOptions?.["sap-ai"]?.signature;
+              reasoning.push({
+                content: part.text,
+                ...(typeof signature === "string" ? { signature } : {}),
+              });
+              break;
+            }
             case "tool-call": {
               toolCalls.push({
                 id: part.toolCallId,
@@ -181,20 +450,43 @@ export function convertToSAPMessages(
           role: "assistant",
           content: text || "",
           tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+          ...(reasoning.length > 0 ? { reasoning_content: reasoning } : {}),
         };
         messages.push(assistantMessage);
         break;
       }
 
       case "tool": {
-        // Convert tool results to tool messages
+        // Tool messages only take text, so returned files are sent in a
+        // user message after the tool messages
+        const mediaParts: UserContentItem[] = [];
+
         for (const part of message.content) {
+          const { text, media } = convertToolOutput(part.output);
+
           const toolMessage: ToolChatMessage = {
             role: "tool",
             tool_call_id: part.toolCallId,
-            content: JSON.stringify(part.output),
+            content: text,
           };
           messages.push(toolMessage);
+
+          if (media.length > 0) {
+            mediaParts.push(
+              {
+                type: "text",
+                text: `Files returned by ${part.toolName} (${part.toolCallId}):`,
+              },
+              ...media.map((item) => convertToolMedia(item, options, model)),
+            );
+          }
+        }
+
+        if (mediaParts.length > 0) {
+          messages.push({
+            role: "user",
+            content: mediaParts as UserChatMessage["content"],
+          });
         }
         break;
       }
@@ -7,7 +7,71 @@ export type {
 } from "./sap-ai-provider";
 
 // Settings and model types
-export type { SAPAISettings, SAPAIModelId } from "./sap-ai-chat-settings";
+export type {
+  SAPAISettings,
+  SAPAIModelId,
+  SAPAIPromptTemplate,
+  SAPAIFallbackModel,
+  SAPAIReasoningSettings,
+} from "./sap-ai-chat-settings";
+export type { SAPAIProviderOptions } from "./sap-ai-provider-options";
+export type { SAPAIRetrySettings } from "./sap-ai-retry";
+
+// Rate limiting
+export { SAPAIRateLimiter } from "./sap-ai-rate-limiter";
+export type {
+  SAPAIRateLimitSettings,
+  SAPAIRateLimitAcquireOptions,
+  SAPAIRateLimitPermit,
+} from "./sap-ai-rate-limiter";
+
+// Response cache
+export { SAPAIMemoryCache, SAPAIFileCache } from "./sap-ai-cache";
+export type {
+  SAPAICache,
+  SAPAICachedResponse,
+  SAPAIMemoryCacheOptions,
+  SAPAIFileCacheOptions,
+} from "./sap-ai-cache";
+
+// Usage tracking
+export { SAPAIUsageTracker } from "./sap-ai-usage";
+export type {
+  SAPAIModelPrice,
+  SAPAIUsageTrackerOptions,
+  SAPAIUsageRecord,
+  SAPAIUsageTotals,
+  SAPAIUsageEntry,
+  SAPAIUsageSnapshot,
+  SAPAIUsageFilter,
+} from "./sap-ai-usage";
+
+// Multiple completions
+export { getCandidates } from "./sap-ai-candidates";
+export type {
+  SAPAICandidate,
+  SAPAICandidateToolCall,
+  SAPAICandidateSource,
+} from "./sap-ai-candidates";
+
+// Image inputs
+export type { SAPAIImageInliningSettings } from "./sap-ai-images";
+
+// Deployment discovery
+export type {
+  SAPAIDeployment,
+  SAPAIDeployedModel,
+  SAPAIDeploymentStatus,
+  SAPAIListDeploymentsOptions,
+} from "./sap-ai-deployments";
+export type {
+  SAPAIEmbeddingSettings,
+  SAPAIEmbeddingModelId,
+} from "./sap-ai-embedding-settings";
+
+// Model capabilities
+export { getModelCapabilities } from "./sap-ai-model-capabilities";
+export type { SAPAIModelCapabilities } from "./sap-ai-model-capabilities";
 
 // Re-export masking/filtering module types and helpers from SAP AI SDK
 export type { MaskingModule, FilteringModule } from "./sap-ai-chat-settings";
@@ -19,9 +83,26 @@ export {
   buildTranslationConfig,
 } from "./sap-ai-chat-settings";
 
+// Prompt templates
+export {
+  renderPromptTemplate,
+  validatePromptTemplate,
+  findTemplatePlaceholders,
+} from "./sap-ai-prompt-template";
+export type { SAPAITemplateRenderOptions } from "./sap-ai-prompt-template";
+
 // Error handling
-export { SAPAIError } from "./sap-ai-error";
-export type { OrchestrationErrorResponse } from "./sap-ai-error";
+export {
+  SAPAIError,
+  SAPAIContentFilterError,
+  SAPAITemplateError,
+  SAPAIModelNotDeployedError,
+} from "./sap-ai-error";
+export type {
+  OrchestrationErrorResponse,
+  SAPAIErrorOptions,
+} from "./sap-ai-error";
+export type { SAPAIContentFilterResult } from "./sap-ai-content-filter";
 
 // Re-export useful types from SAP AI SDK for advanced usage
 export type {
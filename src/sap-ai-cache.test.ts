@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { LanguageModelV2StreamPart } from "@ai-sdk/provider";
+import {
+  SAPAICachedResponse,
+  SAPAIFileCache,
+  SAPAIMemoryCache,
+  collectStream,
+  createCacheKey,
+  createCachedStream,
+} from "./sap-ai-cache";
+
+const response = (text: string): SAPAICachedResponse => ({
+  content: [{ type: "text", text }],
+  finishReason: "stop",
+  usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+  modelId: "gpt-4o",
+  createdAt: 0,
+});
+
+const readAll = async (stream: ReadableStream<LanguageModelV2StreamPart>) => {
+  const parts: LanguageModelV2StreamPart[] = [];
+  const reader = stream.getReader();
+
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+
+  return parts;
+};
+
+describe("SAPAIMemoryCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return stored responses", async () => {
+    const cache = new SAPAIMemoryCache();
+    await cache.set("a", response("Hello"));
+
+    expect(await cache.get("a")).toEqual(response("Hello"));
+    expect(await cache.get("b")).toBeUndefined();
+  });
+
+  it("should evict the least recently used entry", async () => {
+    const cache = new SAPAIMemoryCache({ maxEntries: 2 });
+    await cache.set("a", response("A"));
+    await cache.set("b", response("B"));
+    await cache.get("a");
+    await cache.set("c", response("C"));
+
+    expect(cache.size).toBe(2);
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("b")).toBeUndefined();
+  });
+
+  it("should expire entries after the TTL", async () => {
+    vi.useFakeTimers();
+    const cache = new SAPAIMemoryCache({ ttlMs: 1000 });
+    await cache.set("a", response("Hello"));
+
+    vi.advanceTimersByTime(999);
+    expect(await cache.get("a")).toBeDefined();
+
+    vi.advanceTimersByTime(1);
+    expect(await cache.get("a")).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe("SAPAIFileCache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "sap-ai-cache-"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should persist responses across instances", async () => {
+    await new SAPAIFileCache({ directory }).set("a", response("Hello"));
+
+    const cache = new SAPAIFileCache({ directory });
+
+    expect(await cache.get("a")).toEqual(response("Hello"));
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await readdir(directory)).toEqual(["a.json"]);
+  });
+
+  it("should create missing directories", async () => {
+    const cache = new SAPAIFileCache({ directory: join(directory, "nested") });
+    await cache.set("a", response("Hello"));
+
+    expect(await cache.get("a")).toBeDefined();
+  });
+
+  it("should remove expired entries", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const cache = new SAPAIFileCache({ directory, ttlMs: 1000 });
+    await cache.set("a", response("Hello"));
+
+    vi.advanceTimersByTime(1000);
+
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await readdir(directory)).toEqual([]);
+  });
+});
+
+describe("createCacheKey", () => {
+  it("should not depend on the order of object keys", async () => {
+    const a = await createCacheKey({ config: { a: 1, b: [1, 2] }, x: "y" });
+    const b = await createCacheKey({ x: "y", config: { b: [1, 2], a: 1 } });
+
+    expect(a).toBe(b);
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("should ignore undefined values", async () => {
+    expect(await createCacheKey({ a: 1, b: undefined })).toBe(
+      await createCacheKey({ a: 1 }),
+    );
+  });
+
+  it("should differ for different requests", async () => {
+    expect(await createCacheKey({ messages: ["Hello"] })).not.toBe(
+      await createCacheKey({ messages: ["Hi"] }),
+    );
+  });
+});
+
+describe("createCachedStream", () => {
+  it("should replay text and tool calls", async () => {
+    const parts = await readAll(
+      createCachedStream(
+        {
+          ...response("Hello"),
+          content: [
+            { type: "text", text: "Hello" },
+            {
+              type: "tool-call",
+              toolCallId: "call-1",
+              toolName: "weather",
+              input: '{"city":"Berlin"}',
+            },
+          ],
+        },
+        [],
+        { "sap-ai": { cached: true } },
+      ),
+    );
+
+    expect(parts).toEqual([
+      { type: "stream-start", warnings: [] },
+      { type: "response-metadata", modelId: "gpt-4o", timestamp: new Date(0) },
+      { type: "text-start", id: "0" },
+      { type: "text-delta", id: "0", delta: "Hello" },
+      { type: "text-end", id: "0" },
+      { type: "tool-input-start", id: "call-1", toolName: "weather" },
+      { type: "tool-input-delta", id: "call-1", delta: '{"city":"Berlin"}' },
+      { type: "tool-input-end", id: "call-1" },
+      {
+        type: "tool-call",
+        toolCallId: "call-1",
+        toolName: "weather",
+        input: '{"city":"Berlin"}',
+      },
+      {
+        type: "finish",
+        finishReason: "stop",
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+        providerMetadata: { "sap-ai": { cached: true } },
+      },
+    ]);
+  });
+});
+
+describe("collectStream", () => {
+  const liveStream = (parts: LanguageModelV2StreamPart[]) =>
+    new ReadableStream<LanguageModelV2StreamPart>({
+      start(controller) {
+        parts.forEach((part) => {
+          controller.enqueue(part);
+        });
+        controller.close();
+      },
+    });
+
+  it("should collect a finished stream", async () => {
+    const onComplete = vi.fn(() => Promise.resolve());
+
+    await readAll(
+      collectStream(
+        liveStream([
+          { type: "response-metadata", modelId: "gpt-4o" },
+          { type: "text-start", id: "1" },
+          { type: "text-delta", id: "1", delta: "Hel" },
+          { type: "text-delta", id: "1", delta: "lo" },
+          { type: "text-end", id: "1" },
+          {
+            type: "finish",
+            finishReason: "stop",
+            usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+          },
+        ]),
+        onComplete,
+      ),
+    );
+
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: [{ type: "text", text: "Hello" }],
+        finishReason: "stop",
+        modelId: "gpt-4o",
+      }),
+    );
+  });
+
+  it("should not collect streams with errors", async () => {
+    const onComplete = vi.fn(() => Promise.resolve());
+
+    await readAll(
+      collectStream(
+        liveStream([
+          { type: "error", error: new Error("Stream interrupted") },
+          {
+            type: "finish",
+            finishReason: "error",
+            usage: {
+              inputTokens: undefined,
+              outputTokens: undefined,
+              totalTokens: undefined,
+            },
+          },
+        ]),
+        onComplete,
+      ),
+    );
+
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,408 @@
+import type {
+  LanguageModelV2CallWarning,
+  LanguageModelV2Content,
+  LanguageModelV2FinishReason,
+  LanguageModelV2StreamPart,
+  LanguageModelV2Usage,
+  SharedV2ProviderMetadata,
+} from "@ai-sdk/provider";
+
+/**
+ * Result of a chat call as stored in a response cache.
+ */
+export interface SAPAICachedResponse {
+  /** Generated content (text, tool calls, sources) */
+  content: LanguageModelV2Content[];
+
+  /** Finish reason of the original call */
+  finishReason: LanguageModelV2FinishReason;
+
+  /** Token usage of the original call */
+  usage: LanguageModelV2Usage;
+
+  /** ID of the model that answered */
+  modelId?: string;
+
+  /** Provider metadata of the original call */
+  providerMetadata?: SharedV2ProviderMetadata;
+
+  /** When the response was cached, in milliseconds since the epoch */
+  createdAt: number;
+}
+
+/**
+ * Store for cached chat responses.
+ *
+ * Keys are SHA-256 hashes of the request (orchestration config, messages,
+ * placeholder values and deployment). Stores decide how long entries live.
+ *
+ * @example
+ * ```typescript
+ * // Redis-backed store
+ * const cache: SAPAICache = {
+ *   async get(key) {
+ *     const value = await redis.get(`sap-ai:${key}`);
+ *     return value ? JSON.parse(value) : undefined;
+ *   },
+ *   async set(key, value) {
+ *     await redis.set(`sap-ai:${key}`, JSON.stringify(value), { EX: 3600 });
+ *   }
+ * };
+ * ```
+ */
+export interface SAPAICache {
+  /** Returns the cached response, or `undefined` when missing or expired */
+  get(key: string): Promise<SAPAICachedResponse | undefined>;
+
+  /** Stores a response */
+  set(key: string, value: SAPAICachedResponse): Promise<void>;
+}
+
+/**
+ * Options of {@link SAPAIMemoryCache}.
+ */
+export interface SAPAIMemoryCacheOptions {
+  /**
+   * Maximum number of entries; the least recently used entry is evicted first.
+   * @default 1000
+   */
+  maxEntries?: number;
+
+  /** Time to live of an entry in milliseconds. Entries do not expire by default. */
+  ttlMs?: number;
+}
+
+/**
+ * In-memory response cache with least-recently-used eviction.
+ *
+ * @example
+ * ```typescript
+ * const provider = createSAPAIProvider({
+ *   cache: new SAPAIMemoryCache({ maxEntries: 500, ttlMs: 60 * 60 * 1000 })
+ * });
+ * ```
+ */
+export class SAPAIMemoryCache implements SAPAICache {
+  private readonly maxEntries: number;
+  private readonly ttlMs?: number;
+  private readonly entries = new Map<
+    string,
+    { value: SAPAICachedResponse; expiresAt?: number }
+  >();
+
+  constructor(options: SAPAIMemoryCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.ttlMs = options.ttlMs;
+  }
+
+  /** Number of cached entries, including expired ones not yet evicted. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): Promise<SAPAICachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve(undefined);
+
+    this.entries.delete(key);
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      return Promise.resolve(undefined);
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string, value: SAPAICachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: this.ttlMs !== undefined ? Date.now() + this.ttlMs : undefined,
+    });
+
+    // Maps iterate in insertion order, so the first key is the least recently used
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+
+    return Promise.resolve();
+  }
+
+  /** Removes all entries. */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Options of {@link SAPAIFileCache}.
+ */
+export interface SAPAIFileCacheOptions {
+  /** Directory for the cache files; created when missing */
+  directory: string;
+
+  /** Time to live of an entry in milliseconds. Entries do not expire by default. */
+  ttlMs?: number;
+}
+
+/**
+ * Response cache storing one JSON file per entry, e.g. to keep results
+ * across runs of a batch job. Requires Node.js.
+ *
+ * @example
+ * ```typescript
+ * const provider = createSAPAIProvider({
+ *   cache: new SAPAIFileCache({ directory: '.cache/sap-ai', ttlMs: 24 * 60 * 60 * 1000 })
+ * });
+ * ```
+ */
+export class SAPAIFileCache implements SAPAICache {
+  private readonly directory: string;
+  private readonly ttlMs?: number;
+
+  constructor(options: SAPAIFileCacheOptions) {
+    this.directory = options.directory;
+    this.ttlMs = options.ttlMs;
+  }
+
+  async get(key: string): Promise<SAPAICachedResponse | undefined> {
+    // Loaded on demand, so that the provider also runs on edge runtimes
+    const fs = await import("node:fs/promises");
+    const file = await this.getPath(key);
+
+    let entry: { value: SAPAICachedResponse; expiresAt?: number };
+    try {
+      entry = JSON.parse(await fs.readFile(file, "utf8")) as typeof entry;
+    } catch {
+      return undefined;
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await fs.rm(file, { force: true });
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: SAPAICachedResponse): Promise<void> {
+    const fs = await import("node:fs/promises");
+    const file = await this.getPath(key);
+    const entry = {
+      value,
+      expiresAt: this.ttlMs !== undefined ? Date.now() + this.ttlMs : undefined,
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write to a temporary file first, so that readers never see partial entries
+    const temporaryFile = `${file}.${String(process.pid)}.tmp`;
+    await fs.writeFile(temporaryFile, JSON.stringify(entry), "utf8");
+    await fs.rename(temporaryFile, file);
+  }
+
+  /**
+   * Returns the file of a cache entry.
+   * @internal
+   */
+  private async getPath(key: string): Promise<string> {
+    const path = await import("node:path");
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Serializes a value to JSON with sorted object keys, so that equal
+ * requests produce equal strings.
+ *
+ * @internal
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Computes the cache key of a request.
+ *
+ * @param request - Everything that determines the response
+ * @returns Hex-encoded SHA-256 hash of the request
+ *
+ * @internal
+ */
+export async function createCacheKey(request: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(stableStringify(request)),
+  );
+
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Replays a cached response as a stream, in the order of its content.
+ *
+ * @param cached - Cached response
+ * @param warnings - Warnings of the current call
+ * @param providerMetadata - Provider metadata for the `finish` part
+ * @returns Stream with the parts a live call would have produced
+ *
+ * @internal
+ */
+export function createCachedStream(
+  cached: SAPAICachedResponse,
+  warnings: LanguageModelV2CallWarning[],
+  providerMetadata: SharedV2ProviderMetadata | undefined,
+): ReadableStream<LanguageModelV2StreamPart> {
+  return new ReadableStream<LanguageModelV2StreamPart>({
+    start(controller) {
+      controller.enqueue({ type: "stream-start", warnings });
+      controller.enqueue({
+        type: "response-metadata",
+        modelId: cached.modelId,
+        timestamp: new Date(cached.createdAt),
+      });
+
+      cached.content.forEach((part, index) => {
+        const id = String(index);
+
+        switch (part.type) {
+          case "text":
+          case "reasoning":
+            controller.enqueue({ type: `${part.type}-start`, id });
+            controller.enqueue({
+              type: `${part.type}-delta`,
+              id,
+              delta: part.text,
+            });
+            controller.enqueue({
+              type: `${part.type}-end`,
+              id,
+              ...(part.providerMetadata
+                ? { providerMetadata: part.providerMetadata }
+                : {}),
+            });
+            break;
+          case "tool-call":
+            controller.enqueue({
+              type: "tool-input-start",
+              id: part.toolCallId,
+              toolName: part.toolName,
+            });
+            controller.enqueue({
+              type: "tool-input-delta",
+              id: part.toolCallId,
+              delta: part.input,
+            });
+            controller.enqueue({ type: "tool-input-end", id: part.toolCallId });
+            controller.enqueue(part);
+            break;
+          default:
+            controller.enqueue(part);
+        }
+      });
+
+      controller.enqueue({
+        type: "finish",
+        finishReason: cached.finishReason,
+        usage: cached.usage,
+        providerMetadata,
+      });
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Passes a live stream through and collects its parts, so that a completed
+ * stream can be cached like a `doGenerate` result.
+ *
+ * @param stream - Stream of the live call
+ * @param onComplete - Receives the collected response once the stream finished
+ *   without errors; the stream closes after the returned promise settled
+ * @returns The same parts as the live stream
+ *
+ * @internal
+ */
+export function collectStream(
+  stream: ReadableStream<LanguageModelV2StreamPart>,
+  onComplete: (response: SAPAICachedResponse) => Promise<void>,
+): ReadableStream<LanguageModelV2StreamPart> {
+  const content: LanguageModelV2Content[] = [];
+  const openParts = new Map<
+    string,
+    { text: string; providerMetadata?: SharedV2ProviderMetadata }
+  >();
+  let modelId: string | undefined;
+  let failed = false;
+
+  return stream.pipeThrough(
+    new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+      transform(part, controller) {
+        controller.enqueue(part);
+
+        switch (part.type) {
+          case "response-metadata":
+            modelId = part.modelId ?? modelId;
+            break;
+          case "text-start":
+          case "reasoning-start": {
+            const entry = {
+              type: part.type === "text-start" ? "text" : "reasoning",
+              text: "",
+            } as const;
+            content.push(entry);
+            openParts.set(`${part.type}:${part.id}`, entry);
+            break;
+          }
+          case "text-delta":
+          case "reasoning-delta": {
+            const start = part.type === "text-delta" ? "text" : "reasoning";
+            const entry = openParts.get(`${start}-start:${part.id}`);
+            if (entry) entry.text += part.delta;
+            break;
+          }
+          case "reasoning-end": {
+            // Keeps reasoning signatures for later turns
+            const entry = openParts.get(`reasoning-start:${part.id}`);
+            if (entry && part.providerMetadata) {
+              entry.providerMetadata = part.providerMetadata;
+            }
+            break;
+          }
+          case "tool-call":
+          case "source":
+            content.push(part);
+            break;
+          case "error":
+            failed = true;
+            break;
+          case "finish":
+            if (failed) break;
+            return onComplete({
+              content,
+              finishReason: part.finishReason,
+              usage: part.usage,
+              modelId,
+              providerMetadata: part.providerMetadata,
+              createdAt: Date.now(),
+            });
+        }
+      },
+    }),
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { getCandidates } from "./sap-ai-candidates";
+
+describe("getCandidates", () => {
+  it("should return the primary choice followed by the alternatives", () => {
+    const alternative = {
+      index: 1,
+      text: "Hi there!",
+      toolCalls: [],
+      finishReason: "stop",
+    };
+
+    const candidates = getCandidates({
+      content: [
+        { type: "text", text: "Hello" },
+        { type: "text", text: "!" },
+      ],
+      finishReason: "stop",
+      providerMetadata: { "sap-ai": { alternatives: [alternative] } },
+    });
+
+    expect(candidates).toEqual([
+      { index: 0, text: "Hello!", toolCalls: [], finishReason: "stop" },
+      alternative,
+    ]);
+  });
+
+  it("should serialize parsed tool call inputs", () => {
+    const candidates = getCandidates({
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call_1",
+          toolName: "get_weather",
+          input: { city: "Paris" },
+        },
+      ],
+      finishReason: "tool-calls",
+    });
+
+    expect(candidates).toEqual([
+      {
+        index: 0,
+        toolCalls: [
+          {
+            toolCallId: "call_1",
+            toolName: "get_weather",
+            input: '{"city":"Paris"}',
+          },
+        ],
+        finishReason: "tool-calls",
+      },
+    ]);
+  });
+});
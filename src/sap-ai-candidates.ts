@@ -0,0 +1,111 @@
+import type {
+  LanguageModelV2FinishReason,
+  SharedV2ProviderMetadata,
+} from "@ai-sdk/provider";
+
+/**
+ * Tool call of a completion candidate.
+ */
+export interface SAPAICandidateToolCall {
+  /** ID of the tool call */
+  toolCallId: string;
+
+  /** Name of the called tool */
+  toolName: string;
+
+  /** Arguments of the call as JSON string */
+  input: string;
+}
+
+/**
+ * One of the completions generated for a call with `modelParams.n > 1`.
+ */
+export interface SAPAICandidate {
+  /** Index of the choice in the orchestration response; the primary choice is `0` */
+  index: number;
+
+  /** Generated text, if any */
+  text?: string;
+
+  /** Tool calls of the candidate */
+  toolCalls: SAPAICandidateToolCall[];
+
+  /** Why the model stopped generating this candidate */
+  finishReason: LanguageModelV2FinishReason;
+}
+
+/**
+ * Result of a call, as returned by `generateText` or `doGenerate`.
+ */
+export interface SAPAICandidateSource {
+  /** Content of the primary choice */
+  content: readonly {
+    type: string;
+    text?: string;
+    toolCallId?: string;
+    toolName?: string;
+    input?: unknown;
+  }[];
+
+  /** Finish reason of the primary choice */
+  finishReason: string;
+
+  /** Provider metadata holding the alternative candidates */
+  providerMetadata?: SharedV2ProviderMetadata;
+}
+
+/**
+ * Returns all completion candidates of a call.
+ *
+ * When `modelParams.n` is greater than 1, the primary choice is returned as
+ * regular content and the alternatives are reported in
+ * `providerMetadata['sap-ai'].alternatives`. This helper combines both, e.g.
+ * to rank the candidates.
+ *
+ * @param result - Result of `generateText`, or of `doGenerate`
+ * @returns The primary candidate followed by the alternatives
+ *
+ * @example
+ * ```typescript
+ * const result = await generateText({
+ *   model: provider('gpt-4o', { modelParams: { n: 3 } }),
+ *   prompt: 'Suggest a product name'
+ * });
+ *
+ * for (const candidate of getCandidates(result)) {
+ *   console.log(candidate.index, candidate.text);
+ * }
+ * ```
+ */
+export function getCandidates(result: SAPAICandidateSource): SAPAICandidate[] {
+  const text = result.content
+    .filter((part) => part.type === "text")
+    .map((part) => part.text ?? "")
+    .join("");
+
+  const primary: SAPAICandidate = {
+    index: 0,
+    ...(text ? { text } : {}),
+    toolCalls: result.content
+      .filter((part) => part.type === "tool-call")
+      .map((part) => ({
+        toolCallId: part.toolCallId ?? "",
+        toolName: part.toolName ?? "",
+        // generateText parses the arguments, doGenerate keeps the JSON string
+        input:
+          typeof part.input === "string"
+            ? part.input
+            : JSON.stringify(part.input ?? {}),
+      })),
+    finishReason: result.finishReason as LanguageModelV2FinishReason,
+  };
+
+  const alternatives = result.providerMetadata?.["sap-ai"]?.alternatives;
+
+  return [
+    primary,
+    ...(Array.isArray(alternatives)
+      ? (alternatives as unknown as SAPAICandidate[])
+      : []),
+  ];
+}
@@ -1,55 +1,198 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
 import { SAPAIChatLanguageModel } from "./sap-ai-chat-language-model";
+import {
+  SAPAIContentFilterError,
+  SAPAIError,
+  SAPAIModelNotDeployedError,
+  SAPAITemplateError,
+} from "./sap-ai-error";
+import type { SAPAIRetrySettings } from "./sap-ai-retry";
+import { SAPAIRateLimiter } from "./sap-ai-rate-limiter";
+import { SAPAIMemoryCache } from "./sap-ai-cache";
+import { SAPAIUsageTracker } from "./sap-ai-usage";
+import { createDeploymentResolver } from "./sap-ai-deployments";
+import { APICallError } from "@ai-sdk/provider";
 import type {
   LanguageModelV2Prompt,
   LanguageModelV2FunctionTool,
   LanguageModelV2ProviderTool,
   LanguageModelV2StreamPart,
 } from "@ai-sdk/provider";
+import type {
+  OrchestrationModuleConfig,
+  PromptTemplate,
+} from "@sap-ai-sdk/orchestration";
+
+const mockState = vi.hoisted(
+  (): {
+    intermediateResults: unknown;
+    error: unknown;
+    failingModels: Record<string, unknown>;
+    transientErrors: Error[];
+    clientConfigs: unknown[];
+    deploymentConfigs: unknown[];
+    requests: unknown[];
+    signals: (AbortSignal | undefined)[];
+    alternativeChoices: {
+      index: number;
+      content?: string;
+      tool_calls?: unknown[];
+      finish_reason: string;
+    }[];
+    reasoning: { content?: string; signature?: string }[] | undefined;
+  } => ({
+    intermediateResults: undefined,
+    error: undefined,
+    failingModels: {},
+    transientErrors: [],
+    clientConfigs: [],
+    deploymentConfigs: [],
+    requests: [],
+    signals: [],
+    alternativeChoices: [],
+    reasoning: undefined,
+  }),
+);
+
+// Choices besides the primary one, returned for `n > 1`
+const findAlternative = (index: number | undefined) =>
+  mockState.alternativeChoices.find((choice) => choice.index === index);
 
 // Mock the OrchestrationClient
 vi.mock("@sap-ai-sdk/orchestration", () => {
   class MockOrchestrationClient {
-    chatCompletion = vi.fn().mockResolvedValue({
-      getContent: () => "Hello!",
-      getToolCalls: () => undefined,
-      getTokenUsage: () => ({
-        prompt_tokens: 10,
-        completion_tokens: 5,
-        total_tokens: 15,
-      }),
-      getFinishReason: () => "stop",
-    });
-
-    stream = vi.fn().mockResolvedValue({
-      stream: {
-        async *[Symbol.asyncIterator]() {
-          await Promise.resolve();
-          yield {
-            getDeltaContent: () => "Hello",
-            getDeltaToolCalls: () => undefined,
-            getFinishReason: () => null,
-            getTokenUsage: () => undefined,
-          };
-          yield {
-            getDeltaContent: () => "!",
-            getDeltaToolCalls: () => undefined,
-            getFinishReason: () => "stop",
+    // Like the service, answer with the first configured model that does not fail
+    answeringModel: string | undefined;
+
+    // Each call consumes one of the transient errors before succeeding
+    chatCompletion = vi
+      .fn()
+      .mockImplementation(
+        (request: unknown, requestConfig?: { signal?: AbortSignal }) => {
+          mockState.requests.push(request);
+          mockState.signals.push(requestConfig?.signal);
+          const transientError = mockState.transientErrors.shift();
+          if (transientError) {
+            return Promise.reject(transientError);
+          }
+
+          return Promise.resolve({
+            _data: {
+              final_result: {
+                model: `${String(this.answeringModel)}-0806`,
+                choices: [{ index: 0 }, ...mockState.alternativeChoices],
+              },
+            },
+            getContent: (index?: number) =>
+              index ? findAlternative(index)?.content : "Hello!",
+            findChoiceByIndex: (index: number) =>
+              index === 0
+                ? {
+                    index,
+                    message: {
+                      role: "assistant",
+                      content: "Hello!",
+                      reasoning_content: mockState.reasoning,
+                    },
+                  }
+                : undefined,
+            getIntermediateResults: () => mockState.intermediateResults,
+            getRequestId: () => "request-123",
+            getToolCalls: (index?: number) =>
+              index ? findAlternative(index)?.tool_calls : undefined,
             getTokenUsage: () => ({
               prompt_tokens: 10,
               completion_tokens: 5,
               total_tokens: 15,
             }),
-          };
+            getFinishReason: (index?: number) =>
+              index ? findAlternative(index)?.finish_reason : "stop",
+          });
         },
-      },
-      getTokenUsage: () => ({
-        prompt_tokens: 10,
-        completion_tokens: 5,
-        total_tokens: 15,
-      }),
-      getFinishReason: () => "stop",
-    });
+      );
+
+    stream = vi
+      .fn()
+      .mockImplementation((_request: unknown, signal?: AbortSignal) => {
+        mockState.signals.push(signal);
+        const model = `${String(this.answeringModel)}-0806`;
+
+        const transientError = mockState.transientErrors.shift();
+        if (transientError) {
+          return Promise.reject(transientError);
+        }
+
+        return Promise.resolve({
+          stream: {
+            async *[Symbol.asyncIterator](): AsyncGenerator {
+              await Promise.resolve();
+              yield {
+                _data: { final_result: { model } },
+                findChoiceByIndex: () => ({
+                  index: 0,
+                  delta: { reasoning_content: mockState.reasoning },
+                }),
+                getIntermediateResults: () => mockState.intermediateResults,
+                getDeltaContent: () => "Hello",
+                getDeltaToolCalls: () => undefined,
+                getFinishReason: () => null,
+                getTokenUsage: () => undefined,
+              };
+              yield {
+                _data: {},
+                findChoiceByIndex: () => undefined,
+                getIntermediateResults: () => undefined,
+                getDeltaContent: () => "!",
+                getDeltaToolCalls: () => undefined,
+                getFinishReason: () => "stop",
+                getTokenUsage: () => ({
+                  prompt_tokens: 10,
+                  completion_tokens: 5,
+                  total_tokens: 15,
+                }),
+              };
+            },
+          },
+          _data: {
+            final_result: {
+              choices: [{ index: 0 }, ...mockState.alternativeChoices],
+            },
+          },
+          getTokenUsage: () => ({
+            prompt_tokens: 10,
+            completion_tokens: 5,
+            total_tokens: 15,
+          }),
+          getContent: (index?: number) => findAlternative(index)?.content,
+          getToolCalls: (index?: number) => findAlternative(index)?.tool_calls,
+          getFinishReason: (index?: number) =>
+            index ? findAlternative(index)?.finish_reason : "stop",
+          getRequestId: () => "request-123",
+        });
+      });
+
+    constructor(config: unknown, deploymentConfig?: unknown) {
+      mockState.clientConfigs.push(config);
+      mockState.deploymentConfigs.push(deploymentConfig);
+
+      const configs = (Array.isArray(config) ? config : [config]) as {
+        promptTemplating: { model: { name: string } };
+      }[];
+      const names = configs.map((c) => c.promptTemplating.model.name);
+      this.answeringModel = names.find(
+        (name) => !(name in mockState.failingModels),
+      );
+      const error =
+        mockState.error ??
+        (this.answeringModel === undefined
+          ? mockState.failingModels[names[names.length - 1]]
+          : undefined);
+
+      if (error) {
+        this.chatCompletion.mockRejectedValue(error);
+        this.stream.mockRejectedValue(error);
+      }
+    }
   }
 
   return {
@@ -58,10 +201,15 @@ vi.mock("@sap-ai-sdk/orchestration", () => {
 });
 
 describe("SAPAIChatLanguageModel", () => {
-  const createModel = (modelId = "gpt-4o", settings = {}) => {
+  const createModel = (
+    modelId = "gpt-4o",
+    settings = {},
+    retry: SAPAIRetrySettings | false = false,
+  ) => {
     return new SAPAIChatLanguageModel(modelId, settings, {
       provider: "sap-ai",
       deploymentConfig: { resourceGroup: "default" },
+      retry,
     });
   };
 
@@ -104,6 +252,22 @@ describe("SAPAIChatLanguageModel", () => {
         false,
       );
     });
+
+    it("should only support URLs matching the supported URL patterns", () => {
+      const url = new URL("https://example.com/image.png");
+
+      expect(createModel("anthropic--claude-3.5-sonnet").supportsUrl(url)).toBe(
+        false,
+      );
+      expect(
+        createModel("mistralai--mistral-large-instruct").supportsUrl(url),
+      ).toBe(false);
+      expect(
+        createModel("anthropic--claude-3.5-sonnet").supportsUrl(
+          new URL("data:image/png;base64,AA"),
+        ),
+      ).toBe(true);
+    });
   });
 
   describe("doGenerate", () => {
@@ -277,6 +441,2357 @@ describe("SAPAIChatLanguageModel", () => {
     });
   });
 
+  describe("call options", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    const getParams = (rawPrompt: unknown) =>
+      (
+        rawPrompt as {
+          config: OrchestrationModuleConfig;
+        }
+      ).config.promptTemplating.model.params;
+
+    it("should map call options onto model params", async () => {
+      const model = createModel("gemini-2.5-pro");
+
+      const result = await model.doGenerate({
+        prompt,
+        maxOutputTokens: 100,
+        temperature: 0,
+        topP: 0.5,
+        topK: 40,
+        frequencyPenalty: 0.1,
+        presencePenalty: 0.2,
+        stopSequences: ["END"],
+        seed: 42,
+      });
+
+      expect(getParams(result.rawCall.rawPrompt)).toMatchObject({
+        max_tokens: 100,
+        temperature: 0,
+        top_p: 0.5,
+        top_k: 40,
+        frequency_penalty: 0.1,
+        presence_penalty: 0.2,
+        stop: ["END"],
+        seed: 42,
+      });
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it("should let call options override model settings", async () => {
+      const model = createModel("gpt-4o", {
+        modelParams: { temperature: 0.9, maxTokens: 500, topP: 0.8 },
+      });
+
+      const result = await model.doGenerate({
+        prompt,
+        temperature: 0.1,
+        maxOutputTokens: 50,
+      });
+
+      expect(getParams(result.rawCall.rawPrompt)).toMatchObject({
+        temperature: 0.1,
+        max_tokens: 50,
+        top_p: 0.8,
+      });
+    });
+
+    it("should warn about and strip unsupported settings", async () => {
+      const model = createModel("anthropic--claude-3.5-sonnet");
+
+      const result = await model.doGenerate({
+        prompt,
+        temperature: 0.3,
+        frequencyPenalty: 0.5,
+        seed: 7,
+      });
+
+      const params = getParams(result.rawCall.rawPrompt);
+      expect(params?.temperature).toBe(0.3);
+      expect(params?.frequency_penalty).toBeUndefined();
+      expect(params?.seed).toBeUndefined();
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: "unsupported-setting",
+          setting: "frequencyPenalty",
+        }),
+        expect.objectContaining({
+          type: "unsupported-setting",
+          setting: "seed",
+        }),
+      ]);
+    });
+
+    it("should strip sampling parameters for reasoning models", async () => {
+      const model = createModel("o3-mini");
+
+      const result = await model.doGenerate({ prompt, temperature: 0.5 });
+
+      expect(getParams(result.rawCall.rawPrompt)?.temperature).toBeUndefined();
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: "unsupported-setting",
+          setting: "temperature",
+        }),
+      ]);
+    });
+  });
+
+  describe("reasoning", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Solve 2x = 4" }] },
+    ];
+
+    const getParams = (rawPrompt: unknown) =>
+      (
+        rawPrompt as {
+          config: OrchestrationModuleConfig;
+        }
+      ).config.promptTemplating.model.params;
+
+    afterEach(() => {
+      mockState.reasoning = undefined;
+    });
+
+    it("should map reasoning settings per model family", async () => {
+      const cases: [string, object, object | undefined][] = [
+        ["o3", { effort: "high" }, { reasoning_effort: "high" }],
+        ["o4-mini", { budgetTokens: 1024 }, { reasoning_effort: "low" }],
+        [
+          "anthropic--claude-3.7-sonnet",
+          { effort: "low" },
+          { thinking: { type: "enabled", budget_tokens: 2048 } },
+        ],
+        [
+          "gemini-2.5-pro",
+          { budgetTokens: 4096 },
+          {
+            thinking_config: { thinking_budget: 4096, include_thoughts: true },
+          },
+        ],
+        ["cohere--command-a-reasoning", {}, undefined],
+        [
+          "cohere--command-a-reasoning",
+          { effort: "medium" },
+          { thinking: { type: "enabled", token_budget: 8192 } },
+        ],
+      ];
+
+      for (const [modelId, reasoning, expected] of cases) {
+        const model = createModel(modelId, { reasoning });
+
+        const result = await model.doGenerate({ prompt });
+        const params = getParams(result.rawCall.rawPrompt);
+
+        if (expected === undefined) {
+          expect(params).not.toHaveProperty("thinking");
+        } else {
+          expect(params).toMatchObject(expected);
+        }
+        expect(result.warnings).toEqual([]);
+      }
+    });
+
+    it("should prefer reasoning provider options", async () => {
+      const model = createModel("anthropic--claude-4-sonnet", {
+        reasoning: { effort: "low" },
+      });
+
+      const result = await model.doGenerate({
+        prompt,
+        providerOptions: { "sap-ai": { reasoning: { budgetTokens: 10000 } } },
+      });
+
+      expect(getParams(result.rawCall.rawPrompt)).toMatchObject({
+        thinking: { type: "enabled", budget_tokens: 10000 },
+      });
+    });
+
+    it("should warn about reasoning settings for other models", async () => {
+      const model = createModel("gpt-4o", { reasoning: { effort: "high" } });
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(getParams(result.rawCall.rawPrompt)).not.toHaveProperty(
+        "reasoning_effort",
+      );
+      expect(result.warnings).toEqual([
+        {
+          type: "other",
+          message:
+            "gpt-4o does not support reasoning, the reasoning settings were ignored",
+        },
+      ]);
+    });
+
+    it("should return reasoning content before the answer", async () => {
+      mockState.reasoning = [
+        { content: "2x = 4, so x = 2.", signature: "sig-1" },
+      ];
+      const model = createModel("anthropic--claude-3.7-sonnet");
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.content).toEqual([
+        {
+          type: "reasoning",
+          text: "2x = 4, so x = 2.",
+          providerMetadata: { "sap-ai": { signature: "sig-1" } },
+        },
+        { type: "text", text: "Hello!" },
+      ]);
+    });
+
+    it("should stream reasoning parts before the answer", async () => {
+      mockState.reasoning = [{ content: "Thinking...", signature: "sig-1" }];
+      const model = createModel("anthropic--claude-3.7-sonnet");
+
+      const { stream } = await model.doStream({ prompt });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(
+        parts.filter(
+          (part) =>
+            part.type.startsWith("reasoning-") || part.type === "text-start",
+        ),
+      ).toEqual([
+        { type: "reasoning-start", id: "reasoning-0" },
+        { type: "reasoning-delta", id: "reasoning-0", delta: "Thinking..." },
+        {
+          type: "reasoning-end",
+          id: "reasoning-0",
+          providerMetadata: { "sap-ai": { signature: "sig-1" } },
+        },
+        { type: "text-start", id: "0" },
+      ]);
+    });
+  });
+
+  describe("tool choice", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Get weather" }] },
+    ];
+
+    const tools: LanguageModelV2FunctionTool[] = [
+      {
+        type: "function",
+        name: "get_weather",
+        description: "Get weather for a location",
+        inputSchema: {
+          type: "object",
+          properties: { location: { type: "string" } },
+          required: ["location"],
+        },
+      },
+    ];
+
+    const getTemplating = (rawPrompt: unknown) =>
+      (rawPrompt as { config: OrchestrationModuleConfig }).config
+        .promptTemplating;
+
+    it.each([
+      [{ type: "auto" as const }, "auto"],
+      [{ type: "none" as const }, "none"],
+      [{ type: "required" as const }, "required"],
+      [
+        { type: "tool" as const, toolName: "get_weather" },
+        { type: "function", function: { name: "get_weather" } },
+      ],
+    ])(
+      "should map %o to the OpenAI format for gpt models",
+      async (toolChoice, expected) => {
+        const model = createModel("gpt-4o");
+
+        const result = await model.doGenerate({ prompt, tools, toolChoice });
+
+        const templating = getTemplating(result.rawCall.rawPrompt);
+        expect(templating.model.params?.tool_choice).toEqual(expected);
+        expect(result.warnings).toHaveLength(0);
+      },
+    );
+
+    it.each([
+      [{ type: "auto" as const }, { type: "auto" }],
+      [{ type: "none" as const }, { type: "none" }],
+      [{ type: "required" as const }, { type: "any" }],
+      [
+        { type: "tool" as const, toolName: "get_weather" },
+        { type: "tool", name: "get_weather" },
+      ],
+    ])(
+      "should map %o to the Anthropic format",
+      async (toolChoice, expected) => {
+        const model = createModel("anthropic--claude-3.5-sonnet");
+
+        const result = await model.doGenerate({ prompt, tools, toolChoice });
+
+        const templating = getTemplating(result.rawCall.rawPrompt);
+        expect(templating.model.params?.tool_choice).toEqual(expected);
+      },
+    );
+
+    it("should map to the Bedrock Converse format for Amazon models", async () => {
+      const model = createModel("amazon--nova-pro");
+
+      const result = await model.doGenerate({
+        prompt,
+        tools,
+        toolChoice: { type: "tool", toolName: "get_weather" },
+      });
+
+      const templating = getTemplating(result.rawCall.rawPrompt);
+      expect(templating.model.params?.tool_choice).toEqual({
+        tool: { name: "get_weather" },
+      });
+    });
+
+    it("should omit tools for none on models without a native none option", async () => {
+      const model = createModel("amazon--nova-pro");
+
+      const result = await model.doGenerate({
+        prompt,
+        tools,
+        toolChoice: { type: "none" },
+      });
+
+      const templating = getTemplating(result.rawCall.rawPrompt);
+      const templatePrompt = templating.prompt as { tools?: unknown };
+      expect(templatePrompt.tools).toBeUndefined();
+      expect(templating.model.params?.tool_choice).toBeUndefined();
+    });
+
+    it("should keep the tools for none when the prompt has tool calls", async () => {
+      const model = createModel("amazon--nova-pro");
+
+      const result = await model.doGenerate({
+        prompt: [
+          ...prompt,
+          {
+            role: "assistant",
+            content: [
+              {
+                type: "tool-call",
+                toolCallId: "call_1",
+                toolName: "get_weather",
+                input: { location: "Tokyo" },
+              },
+            ],
+          },
+          {
+            role: "tool",
+            content: [
+              {
+                type: "tool-result",
+                toolCallId: "call_1",
+                toolName: "get_weather",
+                output: { type: "text", value: "Sunny" },
+              },
+            ],
+          },
+        ],
+        tools,
+        toolChoice: { type: "none" },
+      });
+
+      const templating = getTemplating(result.rawCall.rawPrompt);
+      const templatePrompt = templating.prompt as { tools?: unknown[] };
+      expect(templatePrompt.tools).toHaveLength(1);
+      expect(templating.model.params?.tool_choice).toBeUndefined();
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: "unsupported-setting",
+          setting: "toolChoice",
+        }),
+      ]);
+    });
+
+    it("should fall back to required with a warning when a specific tool cannot be forced", async () => {
+      const model = createModel("cohere--command-a-reasoning");
+
+      const result = await model.doGenerate({
+        prompt,
+        tools,
+        toolChoice: { type: "tool", toolName: "get_weather" },
+      });
+
+      const templating = getTemplating(result.rawCall.rawPrompt);
+      expect(templating.model.params?.tool_choice).toBe("required");
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: "unsupported-setting",
+          setting: "toolChoice",
+        }),
+      ]);
+    });
+
+    it("should ignore tool choice when no tools are provided", async () => {
+      const model = createModel("gpt-4o");
+
+      const result = await model.doGenerate({
+        prompt,
+        toolChoice: { type: "required" },
+      });
+
+      const templating = getTemplating(result.rawCall.rawPrompt);
+      expect(templating.model.params?.tool_choice).toBeUndefined();
+    });
+  });
+
+  describe("structured output", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "system", content: "You extract data." },
+      { role: "user", content: [{ type: "text", text: "John is 30" }] },
+    ];
+
+    const schema = {
+      type: "object" as const,
+      properties: {
+        name: { type: "string" as const },
+        age: { type: "number" as const },
+      },
+      required: ["name", "age"],
+    };
+
+    const getRawPrompt = (rawPrompt: unknown) =>
+      rawPrompt as {
+        config: OrchestrationModuleConfig;
+        messages: { role: string; content: unknown }[];
+      };
+
+    const getResponseFormat = (rawPrompt: unknown) =>
+      (
+        getRawPrompt(rawPrompt).config.promptTemplating.prompt as {
+          response_format?: unknown;
+        }
+      ).response_format;
+
+    it("should pass settings.responseFormat to the template", async () => {
+      const responseFormat = {
+        type: "json_schema" as const,
+        json_schema: { name: "person", schema, strict: true },
+      };
+      const model = createModel("gpt-4o", { responseFormat });
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(getResponseFormat(result.rawCall.rawPrompt)).toEqual(
+        responseFormat,
+      );
+    });
+
+    it("should derive a JSON schema response format from the call", async () => {
+      const model = createModel("gpt-4o", {
+        responseFormat: {
+          type: "json_schema",
+          json_schema: { name: "default", strict: true },
+        },
+      });
+
+      const result = await model.doGenerate({
+        prompt,
+        responseFormat: {
+          type: "json",
+          schema,
+          name: "person",
+          description: "A person",
+        },
+      });
+
+      expect(getResponseFormat(result.rawCall.rawPrompt)).toEqual({
+        type: "json_schema",
+        json_schema: {
+          name: "person",
+          description: "A person",
+          schema,
+          strict: true,
+        },
+      });
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it("should use json_object when the call has no schema", async () => {
+      const model = createModel("gpt-4o");
+
+      const result = await model.doGenerate({
+        prompt,
+        responseFormat: { type: "json" },
+      });
+
+      expect(getResponseFormat(result.rawCall.rawPrompt)).toEqual({
+        type: "json_object",
+      });
+    });
+
+    it("should fall back to json_object with the schema in the system prompt", async () => {
+      const model = createModel("anthropic--claude-3.5-sonnet");
+
+      const result = await model.doGenerate({
+        prompt,
+        responseFormat: { type: "json", schema },
+      });
+
+      const rawPrompt = getRawPrompt(result.rawCall.rawPrompt);
+      expect(getResponseFormat(rawPrompt)).toEqual({ type: "json_object" });
+      expect(rawPrompt.messages).toHaveLength(2);
+      expect(rawPrompt.messages[0].role).toBe("system");
+      expect(rawPrompt.messages[0].content).toContain("You extract data.");
+      expect(rawPrompt.messages[0].content).toContain(JSON.stringify(schema));
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: "unsupported-setting",
+          setting: "responseFormat",
+        }),
+      ]);
+    });
+
+    it("should add a system message for the fallback when none exists", async () => {
+      const model = createModel("amazon--nova-pro");
+
+      const result = await model.doGenerate({
+        prompt: [
+          { role: "user", content: [{ type: "text", text: "John is 30" }] },
+        ],
+        responseFormat: { type: "json", schema },
+      });
+
+      const rawPrompt = getRawPrompt(result.rawCall.rawPrompt);
+      expect(rawPrompt.messages).toHaveLength(2);
+      expect(rawPrompt.messages[0].role).toBe("system");
+      expect(rawPrompt.messages[1].role).toBe("user");
+    });
+  });
+
+  describe("model capabilities", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    it("should allow remote image URLs for models that can fetch them", () => {
+      const model = createModel("gpt-4o");
+      const patterns = model.supportedUrls["image/*"];
+
+      expect(patterns.some((p) => p.test("https://example.com/a.png"))).toBe(
+        true,
+      );
+    });
+
+    it("should only allow data URLs for AWS Bedrock models", () => {
+      const model = createModel("anthropic--claude-3.5-sonnet");
+      const patterns = model.supportedUrls["image/*"];
+
+      expect(patterns.some((p) => p.test("https://example.com/a.png"))).toBe(
+        false,
+      );
+      expect(patterns.some((p) => p.test("data:image/png;base64,AA"))).toBe(
+        true,
+      );
+    });
+
+    it("should inline remote images for models that cannot fetch them", async () => {
+      const fetch = vi.fn(() =>
+        Promise.resolve(new Response(new Uint8Array([0x47, 0x49, 0x46, 0x38]))),
+      );
+      const model = new SAPAIChatLanguageModel(
+        "anthropic--claude-3.5-sonnet",
+        {},
+        {
+          provider: "sap-ai",
+          deploymentConfig: { resourceGroup: "default" },
+          imageInlining: { fetch },
+        },
+      );
+
+      const result = await model.doGenerate({
+        prompt: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "file",
+                mediaType: "image/*",
+                data: new URL("https://example.com/a.gif"),
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(fetch).toHaveBeenCalledWith("https://example.com/a.gif", {
+        signal: undefined,
+      });
+      expect(
+        (result.rawCall.rawPrompt as { messages: unknown[] }).messages,
+      ).toEqual([
+        {
+          role: "user",
+          content: [
+            {
+              type: "image_url",
+              image_url: { url: "data:image/gif;base64,R0lGOA==" },
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("should download each image once per call", async () => {
+      const fetch = vi.fn(() =>
+        Promise.resolve(new Response(new Uint8Array([0x47, 0x49, 0x46, 0x38]))),
+      );
+      mockState.requests = [];
+      const model = new SAPAIChatLanguageModel(
+        "gpt-4o",
+        {
+          fallbackModels: ["anthropic--claude-3.5-sonnet"],
+          fallbackStrategy: "service",
+        },
+        {
+          provider: "sap-ai",
+          deploymentConfig: { resourceGroup: "default" },
+          cache: new SAPAIMemoryCache(),
+          imageInlining: { fetch },
+        },
+      );
+
+      await model.doGenerate({
+        prompt: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "file",
+                mediaType: "image/*",
+                data: new URL("https://example.com/a.gif"),
+              },
+            ],
+          },
+        ],
+      });
+
+      // The fallback model cannot fetch the URL, so both models get the image
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(mockState.requests).toMatchObject([
+        {
+          messages: [
+            {
+              content: [
+                {
+                  type: "image_url",
+                  image_url: { url: "data:image/gif;base64,R0lGOA==" },
+                },
+              ],
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("should report no supported URLs for models without vision", () => {
+      const model = createModel("mistralai--mistral-large-instruct");
+      expect(model.supportedUrls).toEqual({});
+    });
+
+    it("should reject documents for models without document support", async () => {
+      const model = createModel("mistralai--mistral-large-instruct");
+
+      await expect(
+        model.doGenerate({
+          prompt: [
+            {
+              role: "user",
+              content: [
+                {
+                  type: "file",
+                  mediaType: "application/pdf",
+                  data: "JVBERg==",
+                },
+              ],
+            },
+          ],
+        }),
+      ).rejects.toThrow(
+        "application/pdf documents for mistralai--mistral-large-instruct",
+      );
+    });
+
+    it("should clamp max tokens to the model limit", async () => {
+      const model = createModel("anthropic--claude-3-haiku");
+
+      const result = await model.doGenerate({
+        prompt,
+        maxOutputTokens: 10000,
+      });
+
+      const config = (
+        result.rawCall.rawPrompt as { config: OrchestrationModuleConfig }
+      ).config;
+      expect(config.promptTemplating.model.params?.max_tokens).toBe(4096);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: "unsupported-setting",
+          setting: "maxOutputTokens",
+        }),
+      ]);
+    });
+
+    it("should drop tools for models without tool calling", async () => {
+      const model = createModel("perplexity--sonar");
+
+      const result = await model.doGenerate({
+        prompt,
+        tools: [
+          {
+            type: "function",
+            name: "calculate",
+            inputSchema: { type: "object", properties: {} },
+          },
+        ],
+      });
+
+      const config = (
+        result.rawCall.rawPrompt as { config: OrchestrationModuleConfig }
+      ).config;
+      expect(
+        (config.promptTemplating.prompt as { tools?: unknown }).tools,
+      ).toBeUndefined();
+      expect(result.warnings[0].type).toBe("unsupported-tool");
+    });
+
+    it("should honor capability overrides from the config", async () => {
+      const model = new SAPAIChatLanguageModel(
+        "anthropic--claude-3.5-sonnet",
+        {},
+        {
+          provider: "sap-ai",
+          deploymentConfig: { resourceGroup: "default" },
+          modelCapabilities: {
+            "anthropic--*": { supportsSeed: true },
+          },
+        },
+      );
+
+      const result = await model.doGenerate({ prompt, seed: 1 });
+
+      expect(model.capabilities.supportsSeed).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+    });
+  });
+
+  describe("grounding", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "system", content: "You are an HR assistant." },
+      {
+        role: "user",
+        content: [{ type: "text", text: "How many vacation days do I get?" }],
+      },
+    ];
+
+    const grounding = {
+      type: "document_grounding_service",
+      config: {
+        filters: [
+          {
+            id: "hr-docs",
+            data_repositories: ["*"],
+            data_repository_type: "vector" as const,
+          },
+        ],
+        placeholders: { input: ["groundingInput"], output: "groundingOutput" },
+      },
+    };
+
+    const getRawPrompt = (rawPrompt: unknown) =>
+      rawPrompt as {
+        config: OrchestrationModuleConfig;
+        messages: { role: string; content: unknown }[];
+        placeholderValues?: Record<string, string>;
+      };
+
+    afterEach(() => {
+      mockState.intermediateResults = undefined;
+    });
+
+    it("should add the grounding module and placeholders", async () => {
+      const model = createModel("gpt-4o", { grounding });
+
+      const result = await model.doGenerate({ prompt });
+
+      const rawPrompt = getRawPrompt(result.rawCall.rawPrompt);
+      expect(rawPrompt.config.grounding).toEqual(grounding);
+      expect(rawPrompt.placeholderValues).toEqual({
+        groundingInput: "How many vacation days do I get?",
+      });
+      expect(rawPrompt.messages[0]).toEqual({
+        role: "system",
+        content:
+          "You are an HR assistant.\n\nUse the following context to answer the question:\n\n{{?groundingOutput}}",
+      });
+    });
+
+    it("should keep messages that already reference the output placeholder", async () => {
+      const model = createModel("gpt-4o", { grounding });
+
+      const result = await model.doGenerate({
+        prompt: [
+          { role: "system", content: "Context: {{?groundingOutput}}" },
+          ...prompt.slice(1),
+        ],
+      });
+
+      expect(getRawPrompt(result.rawCall.rawPrompt).messages[0]).toEqual({
+        role: "system",
+        content: "Context: {{?groundingOutput}}",
+      });
+    });
+
+    it("should return retrieved chunks as sources", async () => {
+      mockState.intermediateResults = {
+        grounding: {
+          message: "grounding result",
+          data: {
+            grounding_query: "grounding call",
+            grounding_result: [
+              {
+                content: "Employees get 30 vacation days.",
+                metadata: [{ key: "title", value: ["Vacation Policy"] }],
+              },
+              { content: "Unused days expire in March.", metadata: [] },
+            ],
+          },
+        },
+      };
+      const model = createModel("gpt-4o", { grounding });
+
+      const result = await model.doGenerate({ prompt });
+
+      const sources = result.content.filter((c) => c.type === "source");
+      expect(sources).toEqual([
+        {
+          type: "source",
+          sourceType: "document",
+          id: expect.any(String) as string,
+          mediaType: "text/plain",
+          title: "Vacation Policy",
+          providerMetadata: {
+            "sap-ai": {
+              content: "Employees get 30 vacation days.",
+              metadata: [{ key: "title", value: ["Vacation Policy"] }],
+            },
+          },
+        },
+        expect.objectContaining({ title: "Grounding chunk 2" }),
+      ]);
+    });
+
+    it("should return a plain grounding result as a single source", async () => {
+      mockState.intermediateResults = {
+        grounding: {
+          message: "grounding result",
+          data: { grounding_result: "Employees get 30 vacation days." },
+        },
+      };
+      const model = createModel("gpt-4o", { grounding });
+
+      const result = await model.doGenerate({ prompt });
+
+      const sources = result.content.filter((c) => c.type === "source");
+      expect(sources).toHaveLength(1);
+      expect(sources[0]).toMatchObject({
+        providerMetadata: {
+          "sap-ai": { content: "Employees get 30 vacation days." },
+        },
+      });
+    });
+
+    it("should stream retrieved chunks as source parts", async () => {
+      mockState.intermediateResults = {
+        grounding: {
+          message: "grounding result",
+          data: { grounding_result: "Employees get 30 vacation days." },
+        },
+      };
+      const model = createModel("gpt-4o", { grounding });
+
+      const { stream } = await model.doStream({ prompt });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const sources = parts.filter((p) => p.type === "source");
+      expect(sources).toHaveLength(1);
+      expect(parts.findIndex((p) => p.type === "source")).toBeLessThan(
+        parts.findIndex((p) => p.type === "text-delta"),
+      );
+    });
+  });
+
+  describe("provider metadata", () => {
+    const prompt: LanguageModelV2Prompt = [
+      {
+        role: "user",
+        content: [{ type: "text", text: "Email jane@example.com" }],
+      },
+    ];
+
+    const moduleResults = {
+      templating: [{ role: "user", content: "Email jane@example.com" }],
+      input_masking: {
+        message: "Input to LLM is masked successfully.",
+        data: { masked_template: '[{"content":"Email MASKED_EMAIL"}]' },
+      },
+      input_filtering: {
+        message: "Input filter passed successfully.",
+        data: { azure_content_safety: { Hate: 0, Violence: 0 } },
+      },
+    };
+
+    afterEach(() => {
+      mockState.intermediateResults = undefined;
+    });
+
+    it("should return the request ID and module results", async () => {
+      mockState.intermediateResults = moduleResults;
+      const model = createModel();
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.providerMetadata).toEqual({
+        "sap-ai": {
+          requestId: "request-123",
+          modelId: "gpt-4o",
+          moduleResults,
+        },
+      });
+    });
+
+    it("should return module results on the stream finish part", async () => {
+      mockState.intermediateResults = {
+        ...moduleResults,
+        llm: { choices: [{ index: 0, delta: { content: "Hello" } }] },
+      };
+      const model = createModel();
+
+      const { stream } = await model.doStream({ prompt });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const finishPart = parts.find((p) => p.type === "finish");
+      expect(finishPart?.providerMetadata).toEqual({
+        "sap-ai": {
+          requestId: "request-123",
+          modelId: "gpt-4o",
+          moduleResults,
+        },
+      });
+    });
+  });
+
+  describe("content filtering", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    const filtering = {
+      input: {
+        filters: [
+          {
+            type: "azure_content_safety" as const,
+            config: { hate: 0 as const, violence: 2 as const },
+          },
+        ],
+      },
+    };
+
+    const blockedError = Object.assign(
+      new Error("Request failed with status code 400."),
+      {
+        cause: {
+          response: {
+            data: {
+              error: {
+                request_id: "request-123",
+                code: 400,
+                message:
+                  "400 - Filtering Module - Input Filter: Prompt filtered due to safety violations.",
+                location: "Filtering Module - Input Filter",
+                intermediate_results: {
+                  input_filtering: {
+                    message: "Prompt filtered due to safety violations.",
+                    data: {
+                      azure_content_safety: { Hate: 2, Violence: 2 },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    );
+
+    afterEach(() => {
+      mockState.intermediateResults = undefined;
+      mockState.error = undefined;
+    });
+
+    it("should report per-category results when content passes", async () => {
+      mockState.intermediateResults = {
+        input_filtering: {
+          message: "Input filter passed successfully.",
+          data: { azure_content_safety: { Hate: 0, Violence: 2 } },
+        },
+      };
+      const model = createModel("gpt-4o", { filtering });
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.providerMetadata?.["sap-ai"].contentFilter).toEqual({
+        input: [
+          {
+            filter: "azure_content_safety",
+            categories: { Hate: 0, Violence: 2 },
+            triggeredCategories: [],
+          },
+        ],
+      });
+    });
+
+    it("should throw SAPAIContentFilterError when input is blocked", async () => {
+      mockState.error = blockedError;
+      const model = createModel("gpt-4o", { filtering });
+
+      const error = await model.doGenerate({ prompt }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SAPAIContentFilterError);
+      expect(error).toMatchObject({
+        direction: "input",
+        requestId: "request-123",
+        filterResults: [
+          {
+            filter: "azure_content_safety",
+            categories: { Hate: 2, Violence: 2 },
+            triggeredCategories: ["Hate"],
+          },
+        ],
+      });
+    });
+
+    it("should throw SAPAIContentFilterError when streaming", async () => {
+      mockState.error = blockedError;
+      const model = createModel("gpt-4o", { filtering });
+
+      await expect(model.doStream({ prompt })).rejects.toBeInstanceOf(
+        SAPAIContentFilterError,
+      );
+    });
+
+    it("should not report other errors as content filter errors", async () => {
+      mockState.error = new Error("Network error");
+      const model = createModel("gpt-4o", { filtering });
+
+      const error = await model.doGenerate({ prompt }).catch((e: unknown) => e);
+
+      expect(error).not.toBeInstanceOf(SAPAIContentFilterError);
+      expect(error).toMatchObject({ message: "Network error" });
+    });
+  });
+
+  describe("error handling", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    const throttled = Object.assign(
+      new Error("Request failed with status code 429."),
+      {
+        cause: {
+          response: {
+            status: 429,
+            headers: { "x-request-id": "request-123", "retry-after": "1" },
+            data: {
+              error: {
+                request_id: "request-123",
+                code: 429,
+                message: "Too many requests",
+                location: "LLM Module",
+              },
+            },
+          },
+        },
+      },
+    );
+
+    afterEach(() => {
+      mockState.error = undefined;
+    });
+
+    it("should reject with an APICallError", async () => {
+      mockState.error = throttled;
+      const model = createModel("gpt-4o");
+
+      const error = await model.doGenerate({ prompt }).catch((e: unknown) => e);
+
+      expect(APICallError.isInstance(error)).toBe(true);
+      expect(error).toBeInstanceOf(SAPAIError);
+      expect(error).toMatchObject({
+        message: "Too many requests",
+        statusCode: 429,
+        responseHeaders: { "x-request-id": "request-123", "retry-after": "1" },
+        responseBody: JSON.stringify(throttled.cause.response.data),
+        isRetryable: true,
+        requestId: "request-123",
+        location: "LLM Module",
+        cause: throttled,
+      });
+    });
+
+    it("should reject with an APICallError when streaming", async () => {
+      mockState.error = throttled;
+      const model = createModel("gpt-4o");
+
+      const error = await model.doStream({ prompt }).catch((e: unknown) => e);
+
+      expect(APICallError.isInstance(error)).toBe(true);
+      expect(error).toMatchObject({ statusCode: 429, isRetryable: true });
+    });
+
+    it("should keep abort errors", async () => {
+      const abort = new DOMException("Aborted", "AbortError");
+      mockState.error = abort;
+      const model = createModel("gpt-4o");
+
+      await expect(model.doGenerate({ prompt })).rejects.toBe(abort);
+    });
+  });
+
+  describe("multiple completions", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    const alternatives = [
+      {
+        index: 2,
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+          },
+        ],
+        finish_reason: "tool_calls",
+      },
+      { index: 1, content: "Hi there!", finish_reason: "length" },
+    ];
+
+    beforeEach(() => {
+      mockState.alternativeChoices = alternatives;
+    });
+
+    afterEach(() => {
+      mockState.alternativeChoices = [];
+    });
+
+    it("should return the alternative choices in provider metadata", async () => {
+      const model = createModel("gpt-4o", { modelParams: { n: 3 } });
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.content).toEqual([{ type: "text", text: "Hello!" }]);
+      expect(result.providerMetadata?.["sap-ai"].alternatives).toEqual([
+        {
+          index: 1,
+          text: "Hi there!",
+          toolCalls: [],
+          finishReason: "length",
+        },
+        {
+          index: 2,
+          toolCalls: [
+            {
+              toolCallId: "call_1",
+              toolName: "get_weather",
+              input: '{"city":"Paris"}',
+            },
+          ],
+          finishReason: "tool-calls",
+        },
+      ]);
+    });
+
+    it("should return the alternative choices on the stream finish part", async () => {
+      const model = createModel("gpt-4o", { modelParams: { n: 3 } });
+
+      const { stream } = await model.doStream({ prompt });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const finish = parts.find((part) => part.type === "finish");
+      expect(finish?.providerMetadata?.["sap-ai"].alternatives).toMatchObject([
+        { index: 1, text: "Hi there!" },
+        { index: 2, finishReason: "tool-calls" },
+      ]);
+    });
+
+    it("should omit alternatives for single completions", async () => {
+      mockState.alternativeChoices = [];
+      const model = createModel("gpt-4o");
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.providerMetadata?.["sap-ai"]).not.toHaveProperty(
+        "alternatives",
+      );
+    });
+  });
+
+  describe("translation", () => {
+    const prompt: LanguageModelV2Prompt = [
+      {
+        role: "user",
+        content: [{ type: "text", text: "Wie viele Urlaubstage habe ich?" }],
+      },
+    ];
+
+    const translation = {
+      input: {
+        type: "sap_document_translation" as const,
+        config: { target_language: "en-US" },
+      },
+      output: {
+        type: "sap_document_translation" as const,
+        config: { source_language: "en-US", target_language: "de-DE" },
+      },
+    };
+
+    afterEach(() => {
+      mockState.intermediateResults = undefined;
+    });
+
+    it("should add the translation module to the config", async () => {
+      const model = createModel("gpt-4o", { translation });
+
+      const result = await model.doGenerate({ prompt });
+
+      const rawPrompt = result.rawCall.rawPrompt as {
+        config: OrchestrationModuleConfig;
+      };
+      expect(rawPrompt.config.translation).toEqual(translation);
+    });
+
+    it("should report languages and translated prompts", async () => {
+      mockState.intermediateResults = {
+        input_translation: {
+          message: "Input to LLM is translated successfully.",
+          data: {
+            source_language: "de-DE",
+            translated_template_roles: {
+              user: ["How many vacation days do I have?"],
+            },
+          },
+        },
+        output_translation: {
+          message: "Output translation successful",
+        },
+      };
+      const model = createModel("gpt-4o", { translation });
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.providerMetadata?.["sap-ai"].translation).toEqual({
+        input: {
+          message: "Input to LLM is translated successfully.",
+          sourceLanguage: "de-DE",
+          targetLanguage: "en-US",
+          translatedMessages: { user: ["How many vacation days do I have?"] },
+        },
+        output: {
+          message: "Output translation successful",
+          sourceLanguage: "en-US",
+          targetLanguage: "de-DE",
+        },
+      });
+    });
+
+    it("should report translation on the stream finish part", async () => {
+      mockState.intermediateResults = {
+        input_translation: {
+          message: "Input to LLM is translated successfully.",
+          data: { source_language: "de-DE" },
+        },
+      };
+      const model = createModel("gpt-4o", { translation });
+
+      const { stream } = await model.doStream({ prompt });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const finishPart = parts.find((p) => p.type === "finish");
+      expect(
+        finishPart?.providerMetadata?.["sap-ai"].translation,
+      ).toMatchObject({
+        input: { sourceLanguage: "de-DE", targetLanguage: "en-US" },
+      });
+    });
+
+    it("should not report translation when not configured", async () => {
+      const model = createModel("gpt-4o");
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.providerMetadata?.["sap-ai"].translation).toBeUndefined();
+    });
+  });
+
+  describe("prompt templates", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "How do I post it?" }] },
+    ];
+
+    const getRawPrompt = (rawPrompt: unknown) =>
+      rawPrompt as {
+        config: OrchestrationModuleConfig;
+        placeholderValues?: Record<string, string>;
+      };
+
+    afterEach(() => {
+      mockState.error = undefined;
+    });
+
+    it("should send inline templates with defaults", async () => {
+      const model = createModel("gpt-4o", {
+        promptTemplate: {
+          template: [
+            {
+              role: "system",
+              content: "You answer questions about {{?product}}.",
+            },
+          ],
+          defaults: { product: "SAP S/4HANA" },
+        },
+        placeholderValues: { product: "SAP EWM", audience: "warehouse" },
+      });
+
+      const result = await model.doGenerate({
+        prompt,
+        providerOptions: {
+          "sap-ai": { placeholderValues: { product: "SAP TM" } },
+        },
+      });
+
+      const rawPrompt = getRawPrompt(result.rawCall.rawPrompt);
+      expect(rawPrompt.config.promptTemplating.prompt).toMatchObject({
+        template: [
+          {
+            role: "system",
+            content: "You answer questions about {{?product}}.",
+          },
+        ],
+        defaults: { product: "SAP S/4HANA" },
+      });
+      expect(rawPrompt.placeholderValues).toEqual({
+        product: "SAP TM",
+        audience: "warehouse",
+      });
+    });
+
+    it("should reference templates from the prompt registry", async () => {
+      const model = createModel("gpt-4o", {
+        promptTemplate: {
+          scenario: "support",
+          name: "ticket-triage",
+          version: "1.0.0",
+        },
+      });
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(
+        getRawPrompt(result.rawCall.rawPrompt).config.promptTemplating.prompt,
+      ).toEqual({
+        template_ref: {
+          scenario: "support",
+          name: "ticket-triage",
+          version: "1.0.0",
+        },
+      });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("should warn when tools are sent with a template reference", async () => {
+      const model = createModel("gpt-4o", {
+        promptTemplate: { id: "template-id" },
+      });
+
+      const result = await model.doGenerate({
+        prompt,
+        tools: [
+          {
+            type: "function",
+            name: "lookup",
+            inputSchema: { type: "object", properties: {} },
+          },
+        ],
+      });
+
+      expect(
+        getRawPrompt(result.rawCall.rawPrompt).config.promptTemplating.prompt,
+      ).toEqual({ template_ref: { id: "template-id" } });
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({ type: "other" }),
+      );
+    });
+
+    it("should reject unresolved placeholders before sending", async () => {
+      mockState.error = new Error("should not be sent");
+      const model = createModel("gpt-4o", {
+        promptTemplate: {
+          template: [
+            {
+              role: "system",
+              content: "Answer about {{?product}} in {{?language}}.",
+            },
+          ],
+          defaults: { language: "English" },
+        },
+      });
+
+      const error = await model.doGenerate({ prompt }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SAPAITemplateError);
+      expect(error).toMatchObject({ missingPlaceholders: ["product"] });
+    });
+
+    it("should render the prompt without sending it in dry-run mode", async () => {
+      mockState.error = new Error("should not be sent");
+      const model = createModel("gpt-4o", {
+        promptTemplate: {
+          template: [
+            {
+              role: "system",
+              content: "Answer about {{?product}} in {{?language}}.",
+            },
+          ],
+          defaults: { language: "English" },
+        },
+      });
+
+      const result = await model.doGenerate({
+        prompt,
+        providerOptions: {
+          "sap-ai": { dryRun: true, placeholderValues: { product: "SAP EWM" } },
+        },
+      });
+
+      expect(result.content).toEqual([]);
+      expect(result.finishReason).toBe("other");
+      expect(result.providerMetadata).toEqual({
+        "sap-ai": {
+          dryRun: true,
+          renderedMessages: [
+            { role: "system", content: "Answer about SAP EWM in English." },
+            { role: "user", content: "How do I post it?" },
+          ],
+          placeholderValues: { product: "SAP EWM" },
+        },
+      });
+    });
+
+    it("should stream the dry-run result", async () => {
+      const model = createModel("gpt-4o", { dryRun: true });
+
+      const { stream } = await model.doStream({ prompt });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts.map((p) => p.type)).toEqual(["stream-start", "finish"]);
+      expect(parts[1]).toMatchObject({
+        finishReason: "other",
+        providerMetadata: { "sap-ai": { dryRun: true } },
+      });
+    });
+
+    it("should not send placeholder values without a template", async () => {
+      const model = createModel("gpt-4o");
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(getRawPrompt(result.rawCall.rawPrompt).placeholderValues).toBe(
+        undefined,
+      );
+    });
+  });
+
+  describe("provider options", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    const getConfig = (rawPrompt: unknown) =>
+      (rawPrompt as { config: OrchestrationModuleConfig }).config;
+
+    const masking = {
+      masking_providers: [
+        {
+          type: "sap_data_privacy_integration" as const,
+          method: "anonymization" as const,
+          entities: [{ type: "profile-email" as const }],
+        },
+      ],
+    };
+
+    it("should merge per-call options over model settings", async () => {
+      const model = createModel("gpt-4o", {
+        modelVersion: "2024-08-06",
+        modelParams: { temperature: 0.7, maxTokens: 200 },
+      });
+
+      const result = await model.doGenerate({
+        prompt,
+        providerOptions: {
+          "sap-ai": {
+            modelVersion: "2024-11-20",
+            modelParams: { temperature: 0.1 },
+            masking,
+          },
+        },
+      });
+
+      const config = getConfig(result.rawCall.rawPrompt);
+      expect(config.promptTemplating.model.version).toBe("2024-11-20");
+      expect(config.promptTemplating.model.params).toMatchObject({
+        temperature: 0.1,
+        max_tokens: 200,
+      });
+      expect(config.masking).toEqual(masking);
+    });
+
+    it("should not change the model settings for later calls", async () => {
+      const model = createModel("gpt-4o");
+
+      await model.doGenerate({
+        prompt,
+        providerOptions: { "sap-ai": { masking } },
+      });
+      const result = await model.doGenerate({ prompt });
+
+      expect(getConfig(result.rawCall.rawPrompt).masking).toBeUndefined();
+    });
+
+    it("should reject invalid provider options", async () => {
+      const model = createModel("gpt-4o");
+
+      await expect(
+        model.doGenerate({
+          prompt,
+          providerOptions: {
+            "sap-ai": { modelParams: { temperature: "hot" } },
+          },
+        }),
+      ).rejects.toThrow();
+
+      await expect(
+        model.doGenerate({
+          prompt,
+          providerOptions: { "sap-ai": { masking: { providers: [] } } },
+        }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("fallback models", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    const throttled = Object.assign(new Error("Request failed"), {
+      cause: { response: { status: 429 } },
+    });
+
+    const readAll = async (
+      stream: ReadableStream<LanguageModelV2StreamPart>,
+    ) => {
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      return parts;
+    };
+
+    beforeEach(() => {
+      mockState.clientConfigs = [];
+    });
+
+    afterEach(() => {
+      mockState.failingModels = {};
+    });
+
+    it("should report the primary model when it answers", async () => {
+      const model = createModel("gpt-4o", { fallbackModels: ["gpt-4.1"] });
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.response?.modelId).toBe("gpt-4o");
+      expect(result.providerMetadata?.["sap-ai"].modelId).toBe("gpt-4o");
+      expect(mockState.clientConfigs).toHaveLength(1);
+    });
+
+    it("should try the next model on retryable errors", async () => {
+      mockState.failingModels = { "gpt-4o": throttled, "gpt-4.1": throttled };
+      const model = createModel("gpt-4o", {
+        fallbackModels: [
+          "gpt-4.1",
+          { modelId: "anthropic--claude-3.7-sonnet", modelVersion: "1" },
+        ],
+      });
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.response?.modelId).toBe("anthropic--claude-3.7-sonnet");
+      expect(result.providerMetadata?.["sap-ai"].modelId).toBe(
+        "anthropic--claude-3.7-sonnet",
+      );
+      const config = result.rawCall.rawPrompt as {
+        config: OrchestrationModuleConfig;
+      };
+      expect(config.config.promptTemplating.model).toMatchObject({
+        name: "anthropic--claude-3.7-sonnet",
+        version: "1",
+      });
+      expect(mockState.clientConfigs).toHaveLength(3);
+    });
+
+    it("should apply the capabilities and parameters of the fallback model", async () => {
+      mockState.failingModels = { "gpt-4o": throttled };
+      const model = createModel("gpt-4o", {
+        modelParams: { temperature: 0.5, n: 2 },
+        fallbackModels: [
+          {
+            modelId: "anthropic--claude-3.7-sonnet",
+            modelParams: { topP: 0.9 },
+          },
+        ],
+      });
+
+      const result = await model.doGenerate({ prompt });
+
+      const config = result.rawCall.rawPrompt as {
+        config: OrchestrationModuleConfig;
+      };
+      expect(config.config.promptTemplating.model.params).toMatchObject({
+        temperature: 0.5,
+        top_p: 0.9,
+        n: undefined,
+      });
+    });
+
+    it("should not fall back on non-retryable errors", async () => {
+      const badRequest = Object.assign(new Error("Bad request"), {
+        cause: { response: { status: 400 } },
+      });
+      mockState.failingModels = { "gpt-4o": badRequest };
+      const model = createModel("gpt-4o", { fallbackModels: ["gpt-4.1"] });
+
+      await expect(model.doGenerate({ prompt })).rejects.toHaveProperty(
+        "cause",
+        badRequest,
+      );
+      expect(mockState.clientConfigs).toHaveLength(1);
+    });
+
+    it("should throw the last error when all models fail", async () => {
+      const unavailable = Object.assign(new Error("Service unavailable"), {
+        cause: { response: { status: 503 } },
+      });
+      mockState.failingModels = { "gpt-4o": throttled, "gpt-4.1": unavailable };
+      const model = createModel("gpt-4o", { fallbackModels: ["gpt-4.1"] });
+
+      await expect(model.doGenerate({ prompt })).rejects.toHaveProperty(
+        "cause",
+        unavailable,
+      );
+    });
+
+    it("should fall back when opening a stream fails", async () => {
+      mockState.failingModels = { "gpt-4o": throttled };
+      const model = createModel("gpt-4o", { fallbackModels: ["gpt-4.1"] });
+
+      const { stream } = await model.doStream({ prompt });
+      const parts = await readAll(stream);
+
+      expect(parts.find((p) => p.type === "response-metadata")).toMatchObject({
+        modelId: "gpt-4.1",
+      });
+      const finishPart = parts.find((p) => p.type === "finish");
+      expect(finishPart?.providerMetadata?.["sap-ai"].modelId).toBe("gpt-4.1");
+    });
+
+    it("should send a config list with the service strategy", async () => {
+      mockState.failingModels = { "gpt-4o": throttled };
+      const model = createModel("gpt-4o", {
+        fallbackModels: ["gpt-4o-mini"],
+        fallbackStrategy: "service",
+      });
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(mockState.clientConfigs).toHaveLength(1);
+      const configs = mockState.clientConfigs[0] as OrchestrationModuleConfig[];
+      expect(configs.map((c) => c.promptTemplating.model.name)).toEqual([
+        "gpt-4o",
+        "gpt-4o-mini",
+      ]);
+      expect(result.response?.modelId).toBe("gpt-4o-mini");
+    });
+
+    it("should send fallback models that need other messages their own prompt", async () => {
+      mockState.requests = [];
+      const model = createModel("gpt-4o", {
+        fallbackModels: ["anthropic--claude-3.5-sonnet"],
+        fallbackStrategy: "service",
+      });
+
+      const result = await model.doGenerate({
+        prompt,
+        responseFormat: {
+          type: "json",
+          schema: {
+            type: "object",
+            properties: { answer: { type: "string" } },
+          },
+        },
+      });
+
+      const configs = mockState.clientConfigs[0] as OrchestrationModuleConfig[];
+      const templates = configs.map(
+        (c) => (c.promptTemplating.prompt as PromptTemplate).template,
+      );
+      expect(templates[0]).toEqual([{ role: "user", content: "Hello" }]);
+      expect(templates[1]).toEqual([
+        expect.objectContaining({
+          role: "system",
+          content: expect.stringContaining('"answer"') as unknown,
+        }),
+        { role: "user", content: "Hello" },
+      ]);
+      expect(mockState.requests).toEqual([
+        { messages: [], placeholderValues: undefined },
+      ]);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: "unsupported-setting",
+          setting: "responseFormat",
+        }),
+      ]);
+    });
+
+    it("should report the answering model of a service-side fallback stream", async () => {
+      mockState.failingModels = { "gpt-4o": throttled };
+      const model = createModel("gpt-4o", {
+        fallbackModels: ["gpt-4o-mini"],
+        fallbackStrategy: "service",
+      });
+
+      const { stream } = await model.doStream({ prompt });
+      const parts = await readAll(stream);
+
+      const finishPart = parts.find((p) => p.type === "finish");
+      expect(finishPart?.providerMetadata?.["sap-ai"].modelId).toBe(
+        "gpt-4o-mini",
+      );
+    });
+  });
+
+  describe("retries", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    const retry = { maxAttempts: 3, initialDelayMs: 0 };
+    const throttled = Object.assign(new Error("Request failed"), {
+      cause: { response: { status: 429, headers: { "retry-after": "0" } } },
+    });
+
+    afterEach(() => {
+      mockState.transientErrors = [];
+    });
+
+    it("should retry throttled requests", async () => {
+      mockState.transientErrors = [throttled, throttled];
+      const model = createModel("gpt-4o", {}, retry);
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.content).toEqual([{ type: "text", text: "Hello!" }]);
+      expect(mockState.transientErrors).toHaveLength(0);
+    });
+
+    it("should throw after the maximum number of attempts", async () => {
+      mockState.transientErrors = [throttled, throttled, throttled];
+      const model = createModel("gpt-4o", {}, retry);
+
+      await expect(model.doGenerate({ prompt })).rejects.toHaveProperty(
+        "cause",
+        throttled,
+      );
+    });
+
+    it("should not retry client errors", async () => {
+      const badRequest = Object.assign(new Error("Bad request"), {
+        cause: { response: { status: 400 } },
+      });
+      mockState.transientErrors = [badRequest];
+      const model = createModel("gpt-4o", {}, retry);
+
+      await expect(model.doGenerate({ prompt })).rejects.toHaveProperty(
+        "cause",
+        badRequest,
+      );
+    });
+
+    it("should retry streams that fail before the first chunk", async () => {
+      mockState.transientErrors = [throttled];
+      const model = createModel("gpt-4o", {}, retry);
+
+      const { stream } = await model.doStream({ prompt });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts.some((p) => p.type === "error")).toBe(false);
+      expect(parts.filter((p) => p.type === "text-delta")).toHaveLength(2);
+    });
+  });
+
+  describe("rate limiting", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    // Freeze the clock, so that requests without queueing wait exactly 0 ms
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const createLimitedModel = (rateLimiter: SAPAIRateLimiter) =>
+      new SAPAIChatLanguageModel(
+        "gpt-4o",
+        {},
+        {
+          provider: "sap-ai",
+          deploymentConfig: { resourceGroup: "default" },
+          retry: false,
+          rateLimiter,
+        },
+      );
+
+    it("should report the queue wait time and release the slot", async () => {
+      const rateLimiter = new SAPAIRateLimiter({ maxConcurrency: 1 });
+      const model = createLimitedModel(rateLimiter);
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.providerMetadata?.["sap-ai"].queueWaitMs).toBe(0);
+      expect(rateLimiter.running).toBe(0);
+    });
+
+    it("should pass the call priority to the limiter", async () => {
+      const rateLimiter = new SAPAIRateLimiter({});
+      const acquire = vi.spyOn(rateLimiter, "acquire");
+      const model = createLimitedModel(rateLimiter);
+
+      await model.doGenerate({
+        prompt,
+        providerOptions: { "sap-ai": { priority: 10 } },
+      });
+
+      expect(acquire).toHaveBeenCalledWith(
+        expect.objectContaining({ priority: 10 }),
+      );
+    });
+
+    it("should release the slot when the stream finished", async () => {
+      const rateLimiter = new SAPAIRateLimiter({ maxConcurrency: 1 });
+      const model = createLimitedModel(rateLimiter);
+
+      const { stream } = await model.doStream({ prompt });
+
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(rateLimiter.running).toBe(0);
+      const finishPart = parts.find((p) => p.type === "finish");
+      expect(finishPart?.providerMetadata?.["sap-ai"].queueWaitMs).toBe(0);
+    });
+
+    it("should pass the abort signal to the request", async () => {
+      const controller = new AbortController();
+      const model = createLimitedModel(new SAPAIRateLimiter({}));
+
+      await model.doGenerate({ prompt, abortSignal: controller.signal });
+
+      expect(mockState.signals.at(-1)).toBe(controller.signal);
+    });
+
+    it("should abort the request and release the slot when the stream is cancelled", async () => {
+      const rateLimiter = new SAPAIRateLimiter({ maxConcurrency: 1 });
+      const model = createLimitedModel(rateLimiter);
+
+      const { stream } = await model.doStream({ prompt });
+      const reader = stream.getReader();
+      await reader.read();
+      await reader.cancel();
+
+      expect(rateLimiter.running).toBe(0);
+      expect(mockState.signals.at(-1)?.aborted).toBe(true);
+    });
+
+    it("should abort the stream request with the caller's signal", async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const model = createModel();
+
+      await model.doStream({ prompt, abortSignal: controller.signal });
+
+      expect(mockState.signals.at(-1)?.aborted).toBe(true);
+    });
+  });
+
+  describe("response cache", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    beforeEach(() => {
+      mockState.clientConfigs = [];
+    });
+
+    const createCachedModel = (cache: SAPAIMemoryCache) =>
+      new SAPAIChatLanguageModel(
+        "gpt-4o",
+        {},
+        {
+          provider: "sap-ai",
+          deploymentConfig: { resourceGroup: "default" },
+          retry: false,
+          cache,
+        },
+      );
+
+    const readAll = async (
+      stream: ReadableStream<LanguageModelV2StreamPart>,
+    ) => {
+      const parts: LanguageModelV2StreamPart[] = [];
+      const reader = stream.getReader();
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      return parts;
+    };
+
+    it("should return cached responses without sending a request", async () => {
+      const model = createCachedModel(new SAPAIMemoryCache());
+
+      const first = await model.doGenerate({ prompt });
+      const second = await model.doGenerate({ prompt });
+
+      expect(mockState.clientConfigs).toHaveLength(1);
+      expect(second.content).toEqual(first.content);
+      expect(second.usage).toEqual(first.usage);
+      expect(second.providerMetadata?.["sap-ai"]).toMatchObject({
+        requestId: "request-123",
+        cached: true,
+      });
+      expect(first.providerMetadata?.["sap-ai"].cached).toBeUndefined();
+    });
+
+    it("should send different prompts", async () => {
+      const model = createCachedModel(new SAPAIMemoryCache());
+
+      await model.doGenerate({ prompt });
+      await model.doGenerate({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      });
+
+      expect(mockState.clientConfigs).toHaveLength(2);
+    });
+
+    it("should bypass the cache when disabled per call", async () => {
+      const cache = new SAPAIMemoryCache();
+      const model = createCachedModel(cache);
+
+      await model.doGenerate({ prompt });
+      const result = await model.doGenerate({
+        prompt,
+        providerOptions: { "sap-ai": { cache: false } },
+      });
+
+      expect(mockState.clientConfigs).toHaveLength(2);
+      expect(result.providerMetadata?.["sap-ai"].cached).toBeUndefined();
+    });
+
+    it("should replay cached responses as a stream", async () => {
+      const model = createCachedModel(new SAPAIMemoryCache());
+      await model.doGenerate({ prompt });
+
+      const { stream } = await model.doStream({ prompt });
+      const parts = await readAll(stream);
+
+      expect(mockState.clientConfigs).toHaveLength(1);
+      expect(parts.map((part) => part.type)).toEqual([
+        "stream-start",
+        "response-metadata",
+        "text-start",
+        "text-delta",
+        "text-end",
+        "finish",
+      ]);
+      const finishPart = parts.find((part) => part.type === "finish");
+      expect(finishPart?.providerMetadata?.["sap-ai"].cached).toBe(true);
+    });
+
+    it("should cache completed streams", async () => {
+      const model = createCachedModel(new SAPAIMemoryCache());
+
+      const { stream } = await model.doStream({ prompt });
+      await readAll(stream);
+      const result = await model.doGenerate({ prompt });
+
+      expect(mockState.clientConfigs).toHaveLength(1);
+      expect(result.content).toEqual([{ type: "text", text: "Hello!" }]);
+      expect(result.finishReason).toBe("stop");
+    });
+
+    it("should send the request when the cache fails", async () => {
+      const cache = new SAPAIMemoryCache();
+      vi.spyOn(cache, "get").mockRejectedValue(new Error("Unavailable"));
+      const model = createCachedModel(cache);
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.content).toEqual([{ type: "text", text: "Hello!" }]);
+    });
+  });
+
+  describe("deployment validation", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    const createValidatedModel = (
+      validateModel: (modelId: string) => Promise<void>,
+      settings = {},
+    ) =>
+      new SAPAIChatLanguageModel("gpt-4o", settings, {
+        provider: "sap-ai",
+        deploymentConfig: { resourceGroup: "default" },
+        retry: false,
+        validateModel,
+      });
+
+    beforeEach(() => {
+      mockState.clientConfigs = [];
+    });
+
+    it("should validate the model and its service-side fallbacks", async () => {
+      const validateModel = vi.fn(() => Promise.resolve());
+      const model = createValidatedModel(validateModel, {
+        fallbackModels: ["gpt-4o-mini"],
+        fallbackStrategy: "service",
+      });
+
+      await model.doGenerate({ prompt });
+
+      expect(validateModel.mock.calls).toEqual([["gpt-4o"], ["gpt-4o-mini"]]);
+    });
+
+    it("should not send requests for models that are not deployed", async () => {
+      const error = new SAPAIModelNotDeployedError("Not deployed", {
+        modelId: "gpt-4o",
+        resourceGroup: "default",
+        availableModels: [],
+      });
+      const model = createValidatedModel(() => Promise.reject(error));
+
+      await expect(model.doStream({ prompt })).rejects.toBe(error);
+      expect(mockState.clientConfigs).toHaveLength(0);
+    });
+
+    it("should call the client-side fallback of models that are not deployed", async () => {
+      const validateModel = vi.fn((modelId: string) =>
+        modelId === "gpt-4o"
+          ? Promise.reject(
+              new SAPAIModelNotDeployedError("Not deployed", {
+                modelId,
+                resourceGroup: "default",
+                availableModels: ["gpt-4o-mini"],
+              }),
+            )
+          : Promise.resolve(),
+      );
+      const model = createValidatedModel(validateModel, {
+        fallbackModels: ["gpt-4o-mini"],
+      });
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.response?.modelId).toBe("gpt-4o-mini");
+      expect(mockState.clientConfigs).toHaveLength(1);
+    });
+
+    it("should report failed queries of the deployed models as SAPAIError", async () => {
+      const model = createValidatedModel(() =>
+        Promise.reject(new Error("Unauthorized")),
+      );
+
+      const error: unknown = await model
+        .doGenerate({ prompt })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SAPAIError);
+      expect(error).toMatchObject({ message: "Unauthorized" });
+    });
+
+    it("should not validate dry runs", async () => {
+      const validateModel = vi.fn(() => Promise.resolve());
+      const model = createValidatedModel(validateModel, { dryRun: true });
+
+      await model.doGenerate({ prompt });
+
+      expect(validateModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deployment resolution", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    const createResolvedModel = (find: () => Promise<string>) =>
+      new SAPAIChatLanguageModel(
+        "gpt-4o",
+        {},
+        {
+          provider: "sap-ai",
+          deploymentConfig: { resourceGroup: "production" },
+          retry: false,
+          deploymentResolver: createDeploymentResolver(find),
+        },
+      );
+
+    beforeEach(() => {
+      mockState.deploymentConfigs = [];
+    });
+
+    afterEach(() => {
+      mockState.transientErrors = [];
+    });
+
+    it("should resolve the deployment once for repeated calls", async () => {
+      const find = vi.fn(() => Promise.resolve("d-1"));
+      const model = createResolvedModel(find);
+
+      for (let call = 0; call < 5; call++) {
+        await model.doGenerate({ prompt });
+        await model.doStream({ prompt });
+      }
+
+      expect(find).toHaveBeenCalledTimes(1);
+      expect(mockState.deploymentConfigs).toEqual(
+        Array(10).fill({ deploymentId: "d-1", resourceGroup: "production" }),
+      );
+    });
+
+    it.each([401, 404])(
+      "should resolve the deployment again after a %i error",
+      async (status) => {
+        const find = vi
+          .fn<() => Promise<string>>()
+          .mockResolvedValueOnce("d-1")
+          .mockResolvedValueOnce("d-2");
+        const model = createResolvedModel(find);
+        mockState.transientErrors = [
+          Object.assign(new Error("Request failed"), {
+            cause: { response: { status } },
+          }),
+        ];
+
+        await expect(model.doGenerate({ prompt })).rejects.toThrow(
+          "Request failed",
+        );
+        await model.doGenerate({ prompt });
+
+        expect(find).toHaveBeenCalledTimes(2);
+        expect(mockState.deploymentConfigs.at(-1)).toMatchObject({
+          deploymentId: "d-2",
+        });
+      },
+    );
+
+    it("should keep the deployment after other errors", async () => {
+      const find = vi.fn(() => Promise.resolve("d-1"));
+      const model = createResolvedModel(find);
+      mockState.transientErrors = [
+        Object.assign(new Error("Bad request"), {
+          cause: { response: { status: 400 } },
+        }),
+      ];
+
+      await expect(model.doStream({ prompt })).rejects.toThrow("Bad request");
+      await model.doStream({ prompt });
+
+      expect(find).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("usage tracking", () => {
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ];
+
+    const createTrackedModel = (
+      usageTracker: SAPAIUsageTracker,
+      settings = {},
+      cache?: SAPAIMemoryCache,
+    ) =>
+      new SAPAIChatLanguageModel("gpt-4o", settings, {
+        provider: "sap-ai",
+        deploymentConfig: { resourceGroup: "production" },
+        retry: false,
+        usageTracker,
+        resourceGroup: "production",
+        cache,
+      });
+
+    it("should record generated usage with merged tags", async () => {
+      const tracker = new SAPAIUsageTracker();
+      const model = createTrackedModel(tracker, {
+        usageTags: { team: "support" },
+      });
+
+      await model.doGenerate({
+        prompt,
+        providerOptions: { "sap-ai": { usageTags: { project: "chatbot" } } },
+      });
+
+      expect(tracker.snapshot().entries).toEqual([
+        expect.objectContaining({
+          modelId: "gpt-4o",
+          resourceGroup: "production",
+          tags: { project: "chatbot", team: "support" },
+          requests: 1,
+          inputTokens: 10,
+          outputTokens: 5,
+          totalTokens: 15,
+        }),
+      ]);
+    });
+
+    it("should record streamed usage", async () => {
+      const tracker = new SAPAIUsageTracker();
+      const model = createTrackedModel(tracker);
+
+      const { stream } = await model.doStream({ prompt });
+      const reader = stream.getReader();
+      while (!(await reader.read()).done) {
+        // Drain the stream
+      }
+
+      expect(tracker.snapshot().total).toMatchObject({
+        requests: 1,
+        totalTokens: 15,
+      });
+    });
+
+    it("should not record cached responses", async () => {
+      const tracker = new SAPAIUsageTracker();
+      const model = createTrackedModel(tracker, {}, new SAPAIMemoryCache());
+
+      await model.doGenerate({ prompt });
+      await model.doGenerate({ prompt });
+
+      expect(tracker.snapshot().total.requests).toBe(1);
+    });
+  });
+
   describe("model-specific behavior", () => {
     it("should disable n parameter for Amazon models", async () => {
       const model = createModel("amazon--nova-pro", {
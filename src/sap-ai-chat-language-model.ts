@@ -5,14 +5,30 @@ import {
   LanguageModelV2Content,
   LanguageModelV2FinishReason,
   LanguageModelV2FunctionTool,
+  LanguageModelV2Reasoning,
+  LanguageModelV2Source,
+  LanguageModelV2Prompt,
   LanguageModelV2StreamPart,
+  LanguageModelV2ToolChoice,
   LanguageModelV2Usage,
+  JSONObject,
+  SharedV2ProviderMetadata,
+  UnsupportedFunctionalityError,
 } from "@ai-sdk/provider";
 import {
   OrchestrationClient,
   OrchestrationModuleConfig,
+  OrchestrationModuleConfigList,
+  AssistantChatMessage,
   ChatMessage,
   ChatCompletionTool,
+  FilteringModule,
+  GroundingModule,
+  LlmModelParams,
+  PromptTemplate,
+  PromptTemplatingModule,
+  ReasoningBlock,
+  TranslationModule,
 } from "@sap-ai-sdk/orchestration";
 import type { HttpDestinationOrFetchOptions } from "@sap-cloud-sdk/connectivity";
 import type {
@@ -24,8 +40,49 @@ import type {
 import { zodToJsonSchema } from "zod-to-json-schema";
 // Import ZodSchema from zod/v3 for zod-to-json-schema
 import type { ZodSchema } from "zod/v3";
+import { generateId, parseProviderOptions } from "@ai-sdk/provider-utils";
 import { convertToSAPMessages } from "./convert-to-sap-messages";
-import { SAPAIModelId, SAPAISettings } from "./sap-ai-chat-settings";
+import {
+  parseContentFilterResults,
+  toContentFilterError,
+} from "./sap-ai-content-filter";
+import { SAPAIModelNotDeployedError, normalizeError } from "./sap-ai-error";
+import { SAPAICandidate } from "./sap-ai-candidates";
+import {
+  SAPAIFallbackModel,
+  SAPAIModelId,
+  SAPAIPromptTemplate,
+  SAPAIReasoningSettings,
+  SAPAISettings,
+} from "./sap-ai-chat-settings";
+import {
+  SAPAIModelCapabilities,
+  getModelCapabilities,
+} from "./sap-ai-model-capabilities";
+import { sapAIProviderOptionsSchema } from "./sap-ai-provider-options";
+import {
+  SAPAICache,
+  SAPAICachedResponse,
+  collectStream,
+  createCacheKey,
+  createCachedStream,
+} from "./sap-ai-cache";
+import { renderPromptTemplate } from "./sap-ai-prompt-template";
+import { SAPAIRateLimiter } from "./sap-ai-rate-limiter";
+import { SAPAIUsageTracker } from "./sap-ai-usage";
+import {
+  SAPAIDeploymentResolver,
+  isStaleDeploymentError,
+} from "./sap-ai-deployments";
+import {
+  SAPAIImageInliningSettings,
+  inlineRemoteImages,
+} from "./sap-ai-images";
+import {
+  SAPAIRetrySettings,
+  isRetryableError,
+  withRetry,
+} from "./sap-ai-retry";
 
 /**
  * Type guard to check if an object is a Zod schema.
@@ -41,6 +98,859 @@ function isZodSchema(obj: unknown): obj is ZodSchema {
   );
 }
 
+/**
+ * AI SDK call settings that map onto orchestration model parameters.
+ * @internal
+ */
+type CallSetting =
+  | "maxOutputTokens"
+  | "temperature"
+  | "topP"
+  | "topK"
+  | "frequencyPenalty"
+  | "presencePenalty"
+  | "stopSequences"
+  | "seed";
+
+/**
+ * Orchestration `params` key for each AI SDK call setting.
+ * @internal
+ */
+const CALL_SETTING_PARAMS: Record<CallSetting, string> = {
+  maxOutputTokens: "max_tokens",
+  temperature: "temperature",
+  topP: "top_p",
+  topK: "top_k",
+  frequencyPenalty: "frequency_penalty",
+  presencePenalty: "presence_penalty",
+  stopSequences: "stop",
+  seed: "seed",
+};
+
+/**
+ * Returns the call settings a model does not accept, based on its capabilities.
+ *
+ * @internal
+ */
+function getUnsupportedCallSettings(
+  capabilities: SAPAIModelCapabilities,
+): CallSetting[] {
+  const unsupported: CallSetting[] = [];
+  if (!capabilities.supportsSampling) {
+    unsupported.push("temperature", "topP");
+  }
+  if (!capabilities.supportsTopK) {
+    unsupported.push("topK");
+  }
+  if (!capabilities.supportsPenalties) {
+    unsupported.push("frequencyPenalty", "presencePenalty");
+  }
+  if (!capabilities.supportsStopSequences) {
+    unsupported.push("stopSequences");
+  }
+  if (!capabilities.supportsSeed) {
+    unsupported.push("seed");
+  }
+  return unsupported;
+}
+
+/**
+ * Result of translating an AI SDK tool choice for a model family.
+ * @internal
+ */
+interface ToolChoiceMapping {
+  /** Value for the orchestration `tool_choice` model parameter */
+  toolChoice?: unknown;
+  /** Whether tools must be left out of the request to emulate `none` */
+  omitTools?: boolean;
+  /** Reason why the requested tool choice could not be honored exactly */
+  warning?: string;
+}
+
+/**
+ * Translates an AI SDK tool choice into the `tool_choice` format of a model,
+ * as given by its `toolChoiceFormat` capability.
+ *
+ * The Bedrock Converse format has no `none` option; it is emulated by
+ * leaving the tools out of the request (see {@link hasToolHistory}).
+ * Models that cannot force a specific tool use `required` with a warning.
+ *
+ * @internal
+ */
+function mapToolChoice(
+  modelId: string,
+  capabilities: SAPAIModelCapabilities,
+  toolChoice: LanguageModelV2ToolChoice,
+): ToolChoiceMapping {
+  if (toolChoice.type === "tool" && !capabilities.supportsSpecificToolChoice) {
+    return {
+      ...mapToolChoice(modelId, capabilities, { type: "required" }),
+      warning: `${modelId} cannot force a specific tool, "required" was used instead of "${toolChoice.toolName}"`,
+    };
+  }
+
+  if (capabilities.toolChoiceFormat === "anthropic") {
+    switch (toolChoice.type) {
+      case "auto":
+        return { toolChoice: { type: "auto" } };
+      case "none":
+        return { toolChoice: { type: "none" } };
+      case "required":
+        return { toolChoice: { type: "any" } };
+      case "tool":
+        return { toolChoice: { type: "tool", name: toolChoice.toolName } };
+    }
+  }
+
+  if (capabilities.toolChoiceFormat === "bedrock") {
+    switch (toolChoice.type) {
+      case "auto":
+        return { toolChoice: { auto: {} } };
+      case "none":
+        return { omitTools: true };
+      case "required":
+        return { toolChoice: { any: {} } };
+      case "tool":
+        return { toolChoice: { tool: { name: toolChoice.toolName } } };
+    }
+  }
+
+  switch (toolChoice.type) {
+    case "auto":
+    case "none":
+    case "required":
+      return { toolChoice: toolChoice.type };
+    case "tool":
+      return {
+        toolChoice: {
+          type: "function",
+          function: { name: toolChoice.toolName },
+        },
+      };
+  }
+}
+
+/**
+ * Whether a prompt contains tool calls or tool results. Bedrock rejects such
+ * prompts when the request defines no tools.
+ *
+ * @internal
+ */
+function hasToolHistory(prompt: LanguageModelV2Prompt): boolean {
+  return prompt.some(
+    (message) =>
+      message.role === "tool" ||
+      (message.role === "assistant" &&
+        message.content.some((part) => part.type === "tool-call")),
+  );
+}
+
+/**
+ * Thinking budget in tokens for each reasoning effort.
+ * @internal
+ */
+const REASONING_EFFORT_BUDGETS = {
+  low: 2048,
+  medium: 8192,
+  high: 16384,
+} as const;
+
+/**
+ * Translates reasoning settings into the model parameters of a model family,
+ * as given by its `reasoningFormat` capability.
+ *
+ * @returns Model parameters to merge into the request, or a warning for
+ *   models without reasoning support
+ *
+ * @internal
+ */
+function mapReasoning(
+  modelId: string,
+  capabilities: SAPAIModelCapabilities,
+  reasoning: SAPAIReasoningSettings | undefined,
+): { params?: Record<string, unknown>; warning?: string } {
+  if (
+    reasoning?.effort === undefined &&
+    reasoning?.budgetTokens === undefined
+  ) {
+    return {};
+  }
+
+  if (!capabilities.supportsReasoning) {
+    return {
+      warning: `${modelId} does not support reasoning, the reasoning settings were ignored`,
+    };
+  }
+
+  const budgetTokens =
+    reasoning.budgetTokens ??
+    REASONING_EFFORT_BUDGETS[reasoning.effort ?? "medium"];
+
+  switch (capabilities.reasoningFormat) {
+    case "openai": {
+      const effort =
+        reasoning.effort ??
+        (budgetTokens <= REASONING_EFFORT_BUDGETS.low
+          ? "low"
+          : budgetTokens <= REASONING_EFFORT_BUDGETS.medium
+            ? "medium"
+            : "high");
+      return { params: { reasoning_effort: effort } };
+    }
+    case "anthropic":
+      return {
+        params: { thinking: { type: "enabled", budget_tokens: budgetTokens } },
+      };
+    case "gemini":
+      return {
+        params: {
+          thinking_config: {
+            thinking_budget: budgetTokens,
+            include_thoughts: true,
+          },
+        },
+      };
+    case "cohere":
+      return {
+        params: { thinking: { type: "enabled", token_budget: budgetTokens } },
+      };
+  }
+}
+
+/**
+ * Converts the reasoning blocks of a choice into AI SDK reasoning content.
+ * Signatures (Anthropic) are kept in `providerMetadata['sap-ai'].signature`,
+ * so that the reasoning can be sent back in later turns.
+ *
+ * @internal
+ */
+function convertReasoningBlocks(
+  blocks: ReasoningBlock[] | undefined,
+): LanguageModelV2Reasoning[] {
+  return (blocks ?? [])
+    .filter((block) => block.content)
+    .map((block) => ({
+      type: "reasoning",
+      text: block.content ?? "",
+      ...(block.signature
+        ? { providerMetadata: { "sap-ai": { signature: block.signature } } }
+        : {}),
+    }));
+}
+
+/**
+ * Response format in the orchestration (OpenAI-compatible) shape.
+ * @internal
+ */
+type ResponseFormat = NonNullable<SAPAISettings["responseFormat"]>;
+
+/**
+ * Resolves the response format for a call.
+ *
+ * The AI SDK response format (e.g. from `generateObject`) takes precedence over
+ * `settings.responseFormat`. JSON schemas from the call inherit `name`, `description`
+ * and `strict` from a `json_schema` response format in the settings.
+ *
+ * @internal
+ */
+function getResponseFormat(
+  settings: SAPAISettings,
+  options: LanguageModelV2CallOptions,
+): ResponseFormat | undefined {
+  const settingsFormat = settings.responseFormat;
+  const callFormat = options.responseFormat;
+
+  if (!callFormat) {
+    return settingsFormat;
+  }
+
+  if (callFormat.type === "text") {
+    return { type: "text" };
+  }
+
+  const settingsJsonSchema =
+    settingsFormat?.type === "json_schema"
+      ? settingsFormat.json_schema
+      : undefined;
+
+  if (!callFormat.schema) {
+    return settingsJsonSchema ? settingsFormat : { type: "json_object" };
+  }
+
+  return {
+    type: "json_schema",
+    json_schema: {
+      name: callFormat.name ?? settingsJsonSchema?.name ?? "response",
+      description: callFormat.description ?? settingsJsonSchema?.description,
+      schema: callFormat.schema,
+      strict: settingsJsonSchema?.strict,
+    },
+  };
+}
+
+/**
+ * Appends an instruction to the system message, creating one if needed.
+ *
+ * @internal
+ */
+function appendSystemInstruction(
+  messages: ChatMessage[],
+  instruction: string,
+): ChatMessage[] {
+  const first = messages.at(0);
+  if (first?.role === "system" && typeof first.content === "string") {
+    return [
+      { role: "system", content: `${first.content}\n\n${instruction}` },
+      ...messages.slice(1),
+    ];
+  }
+
+  return [{ role: "system", content: instruction }, ...messages];
+}
+
+/**
+ * Adds JSON schema instructions to the system message, creating one if needed.
+ * Used for models that only support `json_object` response formats.
+ *
+ * @internal
+ */
+function injectJsonSchemaInstruction(
+  messages: ChatMessage[],
+  jsonSchema: { name: string; description?: string; schema?: unknown },
+): ChatMessage[] {
+  const instruction = [
+    jsonSchema.description,
+    "JSON schema:",
+    JSON.stringify(jsonSchema.schema ?? {}),
+    "You MUST answer with a JSON object that matches the JSON schema above.",
+  ]
+    .filter((line) => line !== undefined)
+    .join("\n");
+
+  return appendSystemInstruction(messages, instruction);
+}
+
+/**
+ * Returns the text of the latest user message.
+ *
+ * @internal
+ */
+function getLatestUserText(messages: ChatMessage[]): string {
+  const message = [...messages].reverse().find((m) => m.role === "user");
+  if (message?.role !== "user") return "";
+
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+
+  return message.content
+    .flatMap((part) => (part.type === "text" && part.text ? [part.text] : []))
+    .join("\n");
+}
+
+/**
+ * Prepares messages and placeholder values for the document grounding module.
+ *
+ * Input placeholders receive the latest user message. The output placeholder
+ * is added to the system message unless the prompt template or a message
+ * already references it. Templates from the prompt registry are expected to
+ * reference it themselves.
+ *
+ * @internal
+ */
+function applyGrounding(
+  messages: ChatMessage[],
+  grounding: GroundingModule,
+  promptTemplate: SAPAIPromptTemplate | undefined,
+): { messages: ChatMessage[]; placeholderValues: Record<string, string> } {
+  const { input, output } = grounding.config.placeholders;
+  const query = getLatestUserText(messages);
+  const placeholderValues = Object.fromEntries(
+    input.map((name) => [name, query]),
+  );
+
+  if (promptTemplate && !("template" in promptTemplate)) {
+    return { messages, placeholderValues };
+  }
+
+  const outputPlaceholder = `{{?${output}}}`;
+  const templateMessages = promptTemplate?.template ?? [];
+  if (
+    JSON.stringify([...templateMessages, ...messages]).includes(
+      outputPlaceholder,
+    )
+  ) {
+    return { messages, placeholderValues };
+  }
+
+  return {
+    messages: appendSystemInstruction(
+      messages,
+      `Use the following context to answer the question:\n\n${outputPlaceholder}`,
+    ),
+    placeholderValues,
+  };
+}
+
+/**
+ * A chunk retrieved by the document grounding module.
+ * @internal
+ */
+interface GroundingChunk {
+  content: string;
+  metadata: { key: string; value: string[] }[];
+}
+
+/**
+ * Normalizes the `grounding_result` of the grounding module.
+ *
+ * The service returns either a single string with the retrieved context, or a
+ * list of chunks with metadata when `metadata_params` are configured.
+ *
+ * @internal
+ */
+function parseGroundingChunks(result: unknown): GroundingChunk[] {
+  if (typeof result === "string") {
+    return result.length > 0 ? [{ content: result, metadata: [] }] : [];
+  }
+
+  if (!Array.isArray(result)) {
+    return [];
+  }
+
+  return result.flatMap((item: unknown): GroundingChunk[] => {
+    if (typeof item === "string") {
+      return [{ content: item, metadata: [] }];
+    }
+    if (typeof item !== "object" || item === null) {
+      return [];
+    }
+
+    const { content, metadata } = item as {
+      content?: unknown;
+      metadata?: unknown;
+    };
+    return [
+      {
+        content: typeof content === "string" ? content : JSON.stringify(item),
+        metadata: Array.isArray(metadata)
+          ? metadata.filter(
+              (entry): entry is GroundingChunk["metadata"][number] =>
+                typeof entry === "object" &&
+                entry !== null &&
+                typeof (entry as { key?: unknown }).key === "string" &&
+                Array.isArray((entry as { value?: unknown }).value),
+            )
+          : [],
+      },
+    ];
+  });
+}
+
+/**
+ * Converts document grounding module results into AI SDK source parts.
+ *
+ * @param moduleResults - Intermediate results of the orchestration response
+ * @returns One document source per retrieved chunk
+ *
+ * @internal
+ */
+function extractGroundingSources(
+  moduleResults: { grounding?: { data?: Record<string, unknown> } } | undefined,
+): LanguageModelV2Source[] {
+  const chunks = parseGroundingChunks(
+    moduleResults?.grounding?.data?.grounding_result,
+  );
+
+  return chunks.map((chunk, index) => {
+    const title = chunk.metadata.find(
+      (entry) => entry.key.toLowerCase() === "title",
+    )?.value[0];
+
+    return {
+      type: "source",
+      sourceType: "document",
+      id: generateId(),
+      mediaType: "text/plain",
+      title: title ?? `Grounding chunk ${String(index + 1)}`,
+      providerMetadata: {
+        "sap-ai": {
+          content: chunk.content,
+          metadata: chunk.metadata,
+        },
+      },
+    };
+  });
+}
+
+/**
+ * Module results evaluated by the provider, as found in the intermediate results.
+ * @internal
+ */
+interface OrchestrationModuleResults {
+  input_translation?: { message: string; data?: Record<string, unknown> };
+  output_translation?: { message: string; data?: Record<string, unknown> };
+  input_filtering?: { message: string; data?: Record<string, unknown> };
+  output_filtering?: { message: string; data?: Record<string, unknown> };
+}
+
+/**
+ * Returns the source language detected by the translation service, if reported.
+ * @internal
+ */
+function getDetectedLanguage(
+  data: Record<string, unknown> | undefined,
+): string | undefined {
+  const language = data?.source_language ?? data?.detected_language;
+  return typeof language === "string" ? language : undefined;
+}
+
+/**
+ * Summarizes translation module results for `providerMetadata`.
+ *
+ * The source language is the one detected by the service, falling back to
+ * the configured `source_language`.
+ *
+ * @param translation - Translation module configuration of the call
+ * @param moduleResults - Intermediate results of the orchestration response
+ * @returns Languages and translated prompts, or `undefined` without translation
+ *
+ * @internal
+ */
+function getTranslationMetadata(
+  translation: TranslationModule | undefined,
+  moduleResults: OrchestrationModuleResults | undefined,
+): JSONObject | undefined {
+  if (!translation) return undefined;
+
+  const metadata: JSONObject = {};
+
+  if (translation.input) {
+    const result = moduleResults?.input_translation;
+    metadata.input = {
+      message: result?.message,
+      sourceLanguage:
+        getDetectedLanguage(result?.data) ??
+        translation.input.config.source_language,
+      targetLanguage: translation.input.config.target_language,
+      translatedMessages: result?.data?.translated_template_roles as
+        JSONObject | undefined,
+      translatedPlaceholders: result?.data?.translated_placeholders as
+        JSONObject | undefined,
+    };
+  }
+
+  if (translation.output) {
+    const result = moduleResults?.output_translation;
+    metadata.output = {
+      message: result?.message,
+      sourceLanguage:
+        getDetectedLanguage(result?.data) ??
+        translation.output.config.source_language,
+      targetLanguage: translation.output.config.target_language as
+        string | JSONObject,
+    };
+  }
+
+  return metadata;
+}
+
+/**
+ * Summarizes content filter results for `providerMetadata`.
+ *
+ * @param filtering - Filtering module configuration of the call
+ * @param moduleResults - Intermediate results of the orchestration response
+ * @returns Per-category results for each direction, or `undefined` without filtering
+ *
+ * @internal
+ */
+function getContentFilterMetadata(
+  filtering: FilteringModule | undefined,
+  moduleResults: OrchestrationModuleResults | undefined,
+): JSONObject | undefined {
+  if (!filtering) return undefined;
+
+  const metadata: JSONObject = {};
+
+  if (filtering.input) {
+    metadata.input = parseContentFilterResults(
+      moduleResults?.input_filtering,
+      filtering.input.filters,
+    ) as unknown as JSONObject[];
+  }
+
+  if (filtering.output) {
+    metadata.output = parseContentFilterResults(
+      moduleResults?.output_filtering,
+      filtering.output.filters,
+    ) as unknown as JSONObject[];
+  }
+
+  return metadata;
+}
+
+/**
+ * Module results that only hold the delta of a single stream chunk.
+ * They are not accumulated into the stream's `providerMetadata`.
+ * @internal
+ */
+const STREAMING_DELTA_RESULTS = new Set(["llm", "output_unmasking"]);
+
+/**
+ * Builds `providerMetadata['sap-ai']` for a generate or stream result.
+ *
+ * @param modelId - ID of the model that answered
+ * @param requestId - Orchestration request ID
+ * @param moduleResults - Intermediate results of the orchestration modules
+ * @param config - Orchestration config of the call
+ * @param queueWaitMs - Time spent waiting for the rate limiter, if configured
+ * @param alternatives - Choices besides the primary one, for `modelParams.n > 1`
+ * @returns Provider metadata with request ID, raw module results,
+ *   translation and content filter summaries and alternative candidates
+ *
+ * @internal
+ */
+function createProviderMetadata(
+  modelId: string,
+  requestId: string | undefined,
+  moduleResults: (OrchestrationModuleResults & object) | undefined,
+  config: OrchestrationModuleConfig,
+  queueWaitMs?: number,
+  alternatives: SAPAICandidate[] = [],
+): SharedV2ProviderMetadata {
+  const translationMetadata = getTranslationMetadata(
+    config.translation,
+    moduleResults,
+  );
+  const contentFilterMetadata = getContentFilterMetadata(
+    config.filtering,
+    moduleResults,
+  );
+
+  return {
+    "sap-ai": {
+      ...(requestId ? { requestId } : {}),
+      modelId,
+      moduleResults: (moduleResults ?? {}) as JSONObject,
+      ...(translationMetadata ? { translation: translationMetadata } : {}),
+      ...(contentFilterMetadata
+        ? { contentFilter: contentFilterMetadata }
+        : {}),
+      ...(queueWaitMs !== undefined ? { queueWaitMs } : {}),
+      ...(alternatives.length > 0
+        ? { alternatives: alternatives as unknown as JSONObject[] }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Response of an orchestration call with one or more choices.
+ * @internal
+ */
+interface ChoicesResponse {
+  getContent(choiceIndex?: number): string | undefined;
+  getToolCalls(choiceIndex?: number): AssistantChatMessage["tool_calls"];
+  getFinishReason(choiceIndex?: number): string | undefined;
+}
+
+/**
+ * Collects the choices besides the primary one, generated with `modelParams.n > 1`.
+ *
+ * @param response - Orchestration response, for streams once completed
+ * @param choices - Choices of the final result
+ * @returns The alternative candidates, ordered by choice index
+ *
+ * @internal
+ */
+function getAlternatives(
+  response: ChoicesResponse,
+  choices: readonly { index: number }[] | undefined,
+): SAPAICandidate[] {
+  return (choices ?? [])
+    .map((choice) => choice.index)
+    .filter((index) => index !== 0)
+    .sort((a, b) => a - b)
+    .map((index) => {
+      const text = response.getContent(index);
+      return {
+        index,
+        ...(text ? { text } : {}),
+        toolCalls: (response.getToolCalls(index) ?? []).map((toolCall) => ({
+          toolCallId: toolCall.id,
+          toolName: toolCall.function.name,
+          input: toolCall.function.arguments,
+        })),
+        finishReason: mapFinishReason(response.getFinishReason(index)),
+      };
+    });
+}
+
+/**
+ * Token usage as reported by the orchestration service.
+ * @internal
+ */
+interface OrchestrationTokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+/**
+ * Converts orchestration token usage to AI SDK usage.
+ *
+ * @param tokenUsage - Token usage reported by the orchestration service
+ * @returns Usage including cached input and reasoning tokens, where reported
+ *
+ * @internal
+ */
+function convertTokenUsage(
+  tokenUsage: OrchestrationTokenUsage,
+): LanguageModelV2Usage {
+  return {
+    inputTokens: tokenUsage.prompt_tokens,
+    outputTokens: tokenUsage.completion_tokens,
+    totalTokens: tokenUsage.total_tokens,
+    cachedInputTokens: tokenUsage.prompt_tokens_details?.cached_tokens,
+    reasoningTokens: tokenUsage.completion_tokens_details?.reasoning_tokens,
+  };
+}
+
+/**
+ * Marks the provider metadata of a response served from the cache.
+ *
+ * @param providerMetadata - Provider metadata of the cached response
+ * @returns Provider metadata with `cached: true` in `providerMetadata['sap-ai']`
+ *
+ * @internal
+ */
+function markCached(
+  providerMetadata: SharedV2ProviderMetadata | undefined,
+): SharedV2ProviderMetadata {
+  return {
+    ...providerMetadata,
+    "sap-ai": { ...providerMetadata?.["sap-ai"], cached: true },
+  };
+}
+
+/**
+ * Finds the candidate that answered a request with service-side fallback.
+ *
+ * The orchestration service reports the versioned model name
+ * (e.g. `gpt-4o-2024-08-06`), so the longest matching candidate ID wins.
+ *
+ * @param modelIds - IDs of the primary and fallback models
+ * @param reportedModel - Model name reported by the LLM module
+ * @returns The matching model ID, or `undefined` if none matches
+ *
+ * @internal
+ */
+function resolveAnsweringModel(
+  modelIds: string[],
+  reportedModel: string | undefined,
+): string | undefined {
+  if (!reportedModel) return undefined;
+
+  return modelIds
+    .filter((modelId) => reportedModel.startsWith(modelId))
+    .reduce<string | undefined>(
+      (best, modelId) =>
+        best && best.length >= modelId.length ? best : modelId,
+      undefined,
+    );
+}
+
+/**
+ * Builds the prompt of the templating module.
+ *
+ * Templates from the prompt registry define their own tools and response
+ * format, so call tools and response formats cannot be sent alongside them.
+ *
+ * @param promptTemplate - Configured prompt template
+ * @param tools - Tools of the call
+ * @param responseFormat - Response format of the call
+ * @param warnings - Receives a warning when tools or response format are dropped
+ * @returns The templating module prompt
+ *
+ * @internal
+ */
+function buildPrompt(
+  promptTemplate: SAPAIPromptTemplate | undefined,
+  tools: ChatCompletionTool[] | undefined,
+  responseFormat: ResponseFormat | undefined,
+  warnings: LanguageModelV2CallWarning[],
+): PromptTemplatingModule["prompt"] {
+  if (promptTemplate && !("template" in promptTemplate)) {
+    if ((tools && tools.length > 0) || responseFormat) {
+      warnings.push({
+        type: "other",
+        message:
+          "Tools and response formats are defined by the referenced prompt template and were not sent",
+      });
+    }
+
+    return { template_ref: promptTemplate };
+  }
+
+  return {
+    template: promptTemplate?.template ?? [],
+    defaults: promptTemplate?.defaults,
+    tools: tools && tools.length > 0 ? tools : undefined,
+    response_format: responseFormat as PromptTemplate["response_format"],
+  };
+}
+
+/**
+ * Builds `providerMetadata['sap-ai']` for a dry run.
+ *
+ * @param messages - Messages that would be sent
+ * @param renderedMessages - Locally rendered prompt, unless a registry template is used
+ * @param placeholderValues - Placeholder values that would be sent
+ * @returns Provider metadata describing the request
+ *
+ * @internal
+ */
+function createDryRunMetadata(
+  messages: ChatMessage[],
+  renderedMessages: ChatMessage[] | undefined,
+  placeholderValues: Record<string, string> | undefined,
+): SharedV2ProviderMetadata {
+  return {
+    "sap-ai": {
+      dryRun: true,
+      ...(renderedMessages
+        ? { renderedMessages }
+        : { messagesHistory: messages }),
+      ...(placeholderValues ? { placeholderValues } : {}),
+    },
+  };
+}
+
+/**
+ * Result of `doGenerate`.
+ * @internal
+ */
+interface SAPAIGenerateResult {
+  content: LanguageModelV2Content[];
+  finishReason: LanguageModelV2FinishReason;
+  usage: LanguageModelV2Usage;
+  rawCall: { rawPrompt: unknown; rawSettings: Record<string, unknown> };
+  response?: { modelId?: string };
+  providerMetadata?: SharedV2ProviderMetadata;
+  warnings: LanguageModelV2CallWarning[];
+}
+
+/**
+ * Result of `doStream`.
+ * @internal
+ */
+interface SAPAIStreamResult {
+  stream: ReadableStream<LanguageModelV2StreamPart>;
+  rawCall: { rawPrompt: unknown; rawSettings: Record<string, unknown> };
+}
+
 /**
  * Internal configuration for the SAP AI Chat Language Model.
  * @internal
@@ -52,6 +962,24 @@ interface SAPAIConfig {
   deploymentConfig: ResourceGroupConfig | DeploymentIdConfig;
   /** Optional custom destination */
   destination?: HttpDestinationOrFetchOptions;
+  /** Additional model capabilities keyed by model ID or `prefix*` */
+  modelCapabilities?: Record<string, Partial<SAPAIModelCapabilities>>;
+  /** Retry policy, or `false` to send every request once */
+  retry?: SAPAIRetrySettings | false;
+  /** Limiter shared by the models of the provider */
+  rateLimiter?: SAPAIRateLimiter;
+  /** Response cache shared by the models of the provider */
+  cache?: SAPAICache;
+  /** Rejects models without a running deployment */
+  validateModel?: (modelId: string) => Promise<void>;
+  /** Orchestration deployment shared by the models of the provider */
+  deploymentResolver?: SAPAIDeploymentResolver;
+  /** Records the token usage of completed calls */
+  usageTracker?: SAPAIUsageTracker;
+  /** Resource group under which usage is recorded */
+  resourceGroup?: string;
+  /** Downloads remote images and sends them inline */
+  imageInlining?: SAPAIImageInliningSettings;
 }
 
 /**
@@ -100,6 +1028,8 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
   readonly modelId: SAPAIModelId;
   /** Whether the model supports structured outputs */
   readonly supportsStructuredOutputs = true;
+  /** Resolved capabilities of the model */
+  readonly capabilities: SAPAIModelCapabilities;
 
   /** Internal configuration */
   private readonly config: SAPAIConfig;
@@ -124,39 +1054,131 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
     this.settings = settings;
     this.config = config;
     this.modelId = modelId;
+    this.capabilities = getModelCapabilities(modelId, config.modelCapabilities);
   }
 
   /**
    * Checks if a URL is supported for file/image uploads.
    *
    * @param url - The URL to check
-   * @returns True if the URL protocol is HTTPS
+   * @returns True if the URL matches one of the `supportedUrls` patterns
    */
   supportsUrl(url: URL): boolean {
-    return url.protocol === "https:";
+    const href = url.toString();
+    return Object.values(this.supportedUrls).some((patterns) =>
+      patterns.some((pattern) => pattern.test(href)),
+    );
   }
 
   /**
    * Returns supported URL patterns for different content types.
+   * URLs that do not match are downloaded by the AI SDK and sent inline.
    *
    * @returns Record of content types to regex patterns
    */
   get supportedUrls(): Record<string, RegExp[]> {
+    if (!this.capabilities.supportsImages) {
+      return {};
+    }
+
     return {
-      "image/*": [
-        /^https:\/\/.*\.(?:png|jpg|jpeg|gif|webp)$/i,
-        /^data:image\/.*$/,
-      ],
+      "image/*": this.capabilities.imageUrlPatterns,
     };
   }
 
   /**
    * Gets the provider identifier.
    *
-   * @returns The provider name ('sap-ai')
+   * @returns The provider name ('sap-ai')
+   */
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  /**
+   * Resolves the settings for a single call.
+   *
+   * Validated `providerOptions['sap-ai']` are merged over the model settings,
+   * so one model instance can serve calls with different masking, filtering,
+   * model version or model parameters.
+   *
+   * @param options - Call options from the AI SDK
+   * @returns Settings for this call
+   *
+   * @throws {InvalidArgumentError} When the provider options fail validation
+   *
+   * @internal
+   */
+  private async getCallSettings(
+    options: LanguageModelV2CallOptions,
+  ): Promise<SAPAISettings> {
+    const providerOptions = await parseProviderOptions({
+      provider: "sap-ai",
+      providerOptions: options.providerOptions,
+      schema: sapAIProviderOptionsSchema,
+    });
+
+    if (!providerOptions) {
+      return this.settings;
+    }
+
+    return {
+      ...this.settings,
+      ...providerOptions,
+      modelParams: {
+        ...(this.settings.modelParams ?? {}),
+        ...(providerOptions.modelParams ?? {}),
+      },
+      placeholderValues: {
+        ...(this.settings.placeholderValues ?? {}),
+        ...(providerOptions.placeholderValues ?? {}),
+      },
+      usageTags: {
+        ...(this.settings.usageTags ?? {}),
+        ...(providerOptions.usageTags ?? {}),
+      },
+    };
+  }
+
+  /**
+   * Downloads the remote images of the prompt that this model or one of its
+   * fallback models cannot fetch itself, if the provider inlines images.
+   *
+   * Called once per call, so that the cache lookup and every model of the
+   * call send the same downloaded images.
+   *
+   * @param options - Call options from the AI SDK
+   * @returns The call options with inlined images
+   *
+   * @throws {SAPAIError} When a download fails or exceeds `maxBytes`
+   *
+   * @internal
    */
-  get provider(): string {
-    return this.config.provider;
+  private async inlineImages(
+    options: LanguageModelV2CallOptions,
+  ): Promise<LanguageModelV2CallOptions> {
+    const settings = this.config.imageInlining;
+    if (!settings) return options;
+
+    const models = [
+      this,
+      ...(this.settings.fallbackModels ?? []).map((fallback) =>
+        this.createFallbackModel(fallback),
+      ),
+    ].filter((model) => model.capabilities.supportsImages);
+    if (models.length === 0) return options;
+
+    const prompt = await inlineRemoteImages(options.prompt, {
+      settings,
+      canFetch: (url) =>
+        models.every((model) =>
+          model.capabilities.imageUrlPatterns.some((pattern) =>
+            pattern.test(url.toString()),
+          ),
+        ),
+      abortSignal: options.abortSignal,
+    });
+    return prompt === options.prompt ? options : { ...options, prompt };
   }
 
   /**
@@ -167,23 +1189,36 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
    *
    * @internal
    */
-  private buildOrchestrationConfig(options: LanguageModelV2CallOptions): {
+  private async buildOrchestrationConfig(
+    options: LanguageModelV2CallOptions,
+  ): Promise<{
     orchestrationConfig: OrchestrationModuleConfig;
     messages: ChatMessage[];
+    placeholderValues?: Record<string, string>;
+    renderedMessages?: ChatMessage[];
+    dryRun: boolean;
+    priority?: number;
+    cache: boolean;
+    usageTags?: Record<string, string>;
     warnings: LanguageModelV2CallWarning[];
-  } {
+  }> {
     const warnings: LanguageModelV2CallWarning[] = [];
+    const settings = await this.getCallSettings(options);
 
     // Convert AI SDK prompt to SAP messages
-    const messages = convertToSAPMessages(options.prompt);
+    let messages = convertToSAPMessages(options.prompt, {
+      modelId: this.modelId,
+      supportsImages: this.capabilities.supportsImages,
+      supportsDocuments: this.capabilities.supportsDocuments,
+    });
 
     // Get tools - prefer settings.tools if provided (proper JSON Schema),
     // otherwise try to convert from AI SDK tools
     let tools: ChatCompletionTool[] | undefined;
 
-    if (this.settings.tools && this.settings.tools.length > 0) {
+    if (settings.tools && settings.tools.length > 0) {
       // Use tools from settings (already in SAP format with proper schemas)
-      tools = this.settings.tools;
+      tools = settings.tools;
     } else {
       // Extract tools from options and convert
       const availableTools = options.tools;
@@ -269,56 +1304,517 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
         .filter((t): t is ChatCompletionTool => t !== null);
     }
 
-    // Check if model supports certain features
-    const supportsN =
-      !this.modelId.startsWith("amazon--") &&
-      !this.modelId.startsWith("anthropic--");
+    // Drop tools for models without tool calling support
+    if (!this.capabilities.supportsToolCalling && options.tools) {
+      for (const tool of options.tools) {
+        warnings.push({
+          type: "unsupported-tool",
+          tool,
+          details: `${this.modelId} does not support tool calling`,
+        });
+      }
+      tools = undefined;
+    }
+
+    // Translate tool choice into the model family's format
+    let toolChoice: unknown;
+    if (options.toolChoice && tools && tools.length > 0) {
+      const mapping = mapToolChoice(
+        this.modelId,
+        this.capabilities,
+        options.toolChoice,
+      );
+      let warning = mapping.warning;
+      if (mapping.omitTools && hasToolHistory(options.prompt)) {
+        // The tool calls of the history need the tool definitions
+        warning = `${this.modelId} cannot disable tools for a prompt with tool calls, tool choice "none" was ignored`;
+      } else if (mapping.omitTools) {
+        tools = undefined;
+      }
+      if (warning) {
+        warnings.push({
+          type: "unsupported-setting",
+          setting: "toolChoice",
+          details: warning,
+        });
+      }
+      toolChoice = mapping.toolChoice;
+    }
+
+    // Call options from the AI SDK take precedence over model settings
+    const modelParams = settings.modelParams;
+    const params: LlmModelParams = {
+      max_tokens: options.maxOutputTokens ?? modelParams?.maxTokens,
+      temperature: options.temperature ?? modelParams?.temperature,
+      top_p: options.topP ?? modelParams?.topP,
+      top_k: options.topK,
+      frequency_penalty:
+        options.frequencyPenalty ?? modelParams?.frequencyPenalty,
+      presence_penalty: options.presencePenalty ?? modelParams?.presencePenalty,
+      stop: options.stopSequences,
+      seed: options.seed,
+      n: this.capabilities.supportsMultipleCompletions
+        ? (modelParams?.n ?? 1)
+        : undefined,
+      tool_choice: toolChoice,
+      parallel_tool_calls:
+        tools && tools.length > 0 && this.capabilities.supportsParallelToolCalls
+          ? modelParams?.parallel_tool_calls
+          : undefined,
+    };
+
+    // Translate reasoning settings into the model family's format
+    const reasoning = mapReasoning(
+      this.modelId,
+      this.capabilities,
+      settings.reasoning,
+    );
+    Object.assign(params, reasoning.params);
+    if (reasoning.warning) {
+      warnings.push({ type: "other", message: reasoning.warning });
+    }
+
+    // Strip parameters the target model does not accept
+    for (const setting of getUnsupportedCallSettings(this.capabilities)) {
+      const paramName = CALL_SETTING_PARAMS[setting];
+      if (params[paramName] === undefined) continue;
+
+      params[paramName] = undefined;
+      warnings.push({
+        type: "unsupported-setting",
+        setting,
+        details: `${setting} is not supported by ${this.modelId} and was ignored`,
+      });
+    }
+
+    // Clamp output tokens to the model limit
+    const maxOutputTokens = this.capabilities.maxOutputTokens;
+    if (
+      maxOutputTokens !== undefined &&
+      typeof params.max_tokens === "number" &&
+      params.max_tokens > maxOutputTokens
+    ) {
+      warnings.push({
+        type: "unsupported-setting",
+        setting: "maxOutputTokens",
+        details: `${String(params.max_tokens)} exceeds the ${this.modelId} limit and was reduced to ${String(maxOutputTokens)}`,
+      });
+      params.max_tokens = maxOutputTokens;
+    }
+
+    // Resolve structured output format, falling back to json_object with
+    // the schema in the system prompt for models without json_schema support
+    let responseFormat = getResponseFormat(settings, options);
+    if (
+      responseFormat?.type === "json_schema" &&
+      !this.capabilities.supportsJsonSchema
+    ) {
+      messages = injectJsonSchemaInstruction(
+        messages,
+        responseFormat.json_schema,
+      );
+      responseFormat = { type: "json_object" };
+      warnings.push({
+        type: "unsupported-setting",
+        setting: "responseFormat",
+        details: `${this.modelId} does not support JSON schema response formats, the schema was added to the system prompt instead`,
+      });
+    }
+
+    // Provide the grounding query and context placeholders
+    let groundingValues: Record<string, string> = {};
+    if (settings.grounding) {
+      ({ messages, placeholderValues: groundingValues } = applyGrounding(
+        messages,
+        settings.grounding,
+        settings.promptTemplate,
+      ));
+    }
+
+    const mergedPlaceholderValues = {
+      ...groundingValues,
+      ...(settings.placeholderValues ?? {}),
+    };
+    const placeholderValues =
+      Object.keys(mergedPlaceholderValues).length > 0
+        ? mergedPlaceholderValues
+        : undefined;
 
     // Build orchestration config
     const orchestrationConfig: OrchestrationModuleConfig = {
       promptTemplating: {
         model: {
           name: this.modelId,
-          version: this.settings.modelVersion ?? "latest",
-          params: {
-            max_tokens: this.settings.modelParams?.maxTokens,
-            temperature: this.settings.modelParams?.temperature,
-            top_p: this.settings.modelParams?.topP,
-            frequency_penalty: this.settings.modelParams?.frequencyPenalty,
-            presence_penalty: this.settings.modelParams?.presencePenalty,
-            n: supportsN ? (this.settings.modelParams?.n ?? 1) : undefined,
-          },
-        },
-        prompt: {
-          template: [],
-          tools: tools && tools.length > 0 ? tools : undefined,
+          version: settings.modelVersion ?? "latest",
+          params,
         },
+        prompt: buildPrompt(
+          settings.promptTemplate,
+          tools,
+          responseFormat,
+          warnings,
+        ),
       },
       // Include masking module if provided
-      ...(this.settings.masking ? { masking: this.settings.masking } : {}),
+      ...(settings.masking ? { masking: settings.masking } : {}),
       // Include filtering module if provided
-      ...(this.settings.filtering
-        ? { filtering: this.settings.filtering }
-        : {}),
+      ...(settings.filtering ? { filtering: settings.filtering } : {}),
+      // Include grounding module if provided
+      ...(settings.grounding ? { grounding: settings.grounding } : {}),
+      // Include translation module if provided
+      ...(settings.translation ? { translation: settings.translation } : {}),
     };
 
-    return { orchestrationConfig, messages, warnings };
+    // Render the prompt locally, so that unresolved placeholders are reported
+    // before the request is sent. Registry templates are only known to the service.
+    let renderedMessages: ChatMessage[] | undefined;
+    if (!settings.promptTemplate || "template" in settings.promptTemplate) {
+      renderedMessages = renderPromptTemplate(
+        [...(settings.promptTemplate?.template ?? []), ...messages],
+        {
+          placeholderValues,
+          defaults: settings.promptTemplate?.defaults,
+          preserve: settings.grounding
+            ? [settings.grounding.config.placeholders.output]
+            : [],
+        },
+      );
+    }
+
+    return {
+      orchestrationConfig,
+      messages,
+      placeholderValues,
+      renderedMessages,
+      dryRun: settings.dryRun ?? false,
+      priority: settings.priority,
+      cache: settings.cache ?? true,
+      usageTags: settings.usageTags,
+      warnings,
+    };
   }
 
   /**
    * Creates an OrchestrationClient instance.
    *
-   * @param config - Orchestration module configuration
-   * @returns OrchestrationClient instance
+   * Without a configured deployment ID, the client is created for the
+   * deployment of the provider's deployment resolver, so that the SAP AI SDK
+   * does not resolve it per request.
+   *
+   * @param config - Orchestration module configuration, or a config list
+   *   for service-side fallback
+   * @returns OrchestrationClient instance, and the resolved deployment ID
+   *
+   * @internal
+   */
+  private async createClient(
+    config: OrchestrationModuleConfig | OrchestrationModuleConfigList,
+  ): Promise<{ client: OrchestrationClient; deploymentId?: string }> {
+    const { deploymentConfig, deploymentResolver, destination } = this.config;
+
+    if (!deploymentResolver || "deploymentId" in deploymentConfig) {
+      return {
+        client: new OrchestrationClient(config, deploymentConfig, destination),
+      };
+    }
+
+    const deploymentId = await deploymentResolver.resolve();
+    return {
+      client: new OrchestrationClient(
+        config,
+        { deploymentId, resourceGroup: deploymentConfig.resourceGroup },
+        destination,
+      ),
+      deploymentId,
+    };
+  }
+
+  /**
+   * Drops the resolved deployment after a request failed because the
+   * deployment is gone or no longer accessible.
+   *
+   * @param deploymentId - Deployment the request was sent to
+   * @param error - Error of the request
+   *
+   * @internal
+   */
+  private invalidateDeployment(
+    deploymentId: string | undefined,
+    error: unknown,
+  ): void {
+    if (deploymentId && isStaleDeploymentError(error)) {
+      this.config.deploymentResolver?.invalidate(deploymentId);
+    }
+  }
+
+  /**
+   * Creates the model instance of a fallback model.
+   *
+   * The fallback inherits the settings of this model, except for the model
+   * version, and resolves its own capabilities.
+   *
+   * @param fallback - Fallback model ID or configuration
+   * @returns Model instance without further fallbacks
+   *
+   * @internal
+   */
+  private createFallbackModel(
+    fallback: SAPAIModelId | SAPAIFallbackModel,
+  ): SAPAIChatLanguageModel {
+    const { modelId, modelVersion, modelParams } =
+      typeof fallback === "string" ? { modelId: fallback } : fallback;
+
+    return new SAPAIChatLanguageModel(
+      modelId,
+      {
+        ...this.settings,
+        modelVersion,
+        modelParams: {
+          ...(this.settings.modelParams ?? {}),
+          ...(modelParams ?? {}),
+        },
+        fallbackModels: undefined,
+      },
+      this.config,
+    );
+  }
+
+  /**
+   * Runs a call against this model and its fallback models.
+   *
+   * With the `client` strategy, the next model is called when the previous
+   * one fails with a retryable error or is not deployed. With the `service` strategy, the call
+   * receives the fallback models and sends them as a config list.
+   *
+   * @param call - Sends the request for a model, with its service-side fallbacks
+   * @returns Result of the first model that succeeded
+   *
+   * @throws The error of the last model, or the first error that does not
+   *   move on to the next model
+   *
+   * @internal
+   */
+  private async withFallback<T>(
+    call: (
+      model: SAPAIChatLanguageModel,
+      fallbacks: SAPAIChatLanguageModel[],
+    ) => Promise<T>,
+  ): Promise<T> {
+    const fallbacks = (this.settings.fallbackModels ?? []).map((fallback) =>
+      this.createFallbackModel(fallback),
+    );
+
+    if (this.settings.fallbackStrategy === "service") {
+      return call(this, fallbacks);
+    }
+
+    const models = [this, ...fallbacks];
+    for (let index = 0; ; index++) {
+      try {
+        return await call(models[index], []);
+      } catch (error) {
+        const next =
+          isRetryableError(error) ||
+          error instanceof SAPAIModelNotDeployedError;
+        if (index === models.length - 1 || !next) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Builds the request of a call with service-side fallback models.
+   *
+   * The service appends the request messages to the prompt template of every
+   * config. When a fallback model needs other messages than this model (e.g.
+   * the JSON schema instruction for models without JSON schema support), the
+   * messages of each model are moved into the template of its config instead.
+   * The warnings of the fallback models are added to `warnings`.
+   *
+   * @param options - Call options from the AI SDK
+   * @param fallbacks - Fallback models
+   * @param primary - Config and messages of this model
+   * @param warnings - Warnings of the call
+   * @returns The client config and the messages of the request
+   *
+   * @throws {UnsupportedFunctionalityError} When models needing different
+   *   messages use a prompt registry template
    *
    * @internal
    */
-  private createClient(config: OrchestrationModuleConfig): OrchestrationClient {
-    return new OrchestrationClient(
-      config,
-      this.config.deploymentConfig,
-      this.config.destination,
+  private async buildFallbackRequest(
+    options: LanguageModelV2CallOptions,
+    fallbacks: SAPAIChatLanguageModel[],
+    primary: {
+      orchestrationConfig: OrchestrationModuleConfig;
+      messages: ChatMessage[];
+    },
+    warnings: LanguageModelV2CallWarning[],
+  ): Promise<{
+    config: OrchestrationModuleConfig | OrchestrationModuleConfigList;
+    messages: ChatMessage[];
+  }> {
+    if (fallbacks.length === 0) {
+      return {
+        config: primary.orchestrationConfig,
+        messages: primary.messages,
+      };
+    }
+
+    const results = await Promise.all(
+      fallbacks.map((model) => model.buildOrchestrationConfig(options)),
     );
+
+    const seen = new Set(warnings.map((warning) => JSON.stringify(warning)));
+    for (const warning of results.flatMap((result) => result.warnings)) {
+      const key = JSON.stringify(warning);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      warnings.push(warning);
+    }
+
+    const messagesKey = JSON.stringify(primary.messages);
+    if (
+      results.every((result) => JSON.stringify(result.messages) === messagesKey)
+    ) {
+      return {
+        config: [
+          primary.orchestrationConfig,
+          ...results.map((result) => result.orchestrationConfig),
+        ],
+        messages: primary.messages,
+      };
+    }
+
+    const withMessages = ({
+      orchestrationConfig,
+      messages,
+    }: {
+      orchestrationConfig: OrchestrationModuleConfig;
+      messages: ChatMessage[];
+    }): OrchestrationModuleConfig => {
+      const { prompt } = orchestrationConfig.promptTemplating;
+      if (typeof prompt !== "object" || prompt.template_ref) {
+        throw new UnsupportedFunctionalityError({
+          functionality:
+            "Service-side fallback models that need different messages with a prompt registry template",
+        });
+      }
+
+      const template = prompt as PromptTemplate;
+      return {
+        ...orchestrationConfig,
+        promptTemplating: {
+          ...orchestrationConfig.promptTemplating,
+          prompt: {
+            ...template,
+            template: [...(template.template ?? []), ...messages],
+          },
+        },
+      };
+    };
+
+    return {
+      config: [withMessages(primary), ...results.map(withMessages)],
+      messages: [],
+    };
+  }
+
+  /**
+   * Checks that this model and its service-side fallback models have a
+   * running deployment, if the provider validates models.
+   *
+   * @param fallbacks - Models sent as service-side fallbacks
+   *
+   * @throws {SAPAIModelNotDeployedError} When a model is not deployed
+   * @throws {SAPAIError} When the deployed models cannot be queried
+   *
+   * @internal
+   */
+  private async validateDeployments(
+    fallbacks: SAPAIChatLanguageModel[],
+  ): Promise<void> {
+    const { validateModel } = this.config;
+    if (!validateModel) return;
+
+    try {
+      await Promise.all(
+        [this, ...fallbacks].map((model) => validateModel(model.modelId)),
+      );
+    } catch (error) {
+      throw normalizeError(error);
+    }
+  }
+
+  /**
+   * Records the usage of a completed call in the provider's usage tracker.
+   *
+   * @param modelId - ID of the model that answered
+   * @param usage - Token usage of the call
+   * @param usageTags - Tags of the call
+   *
+   * @internal
+   */
+  private recordUsage(
+    modelId: string,
+    usage: LanguageModelV2Usage,
+    usageTags: Record<string, string> | undefined,
+  ): void {
+    this.config.usageTracker?.record({
+      modelId,
+      resourceGroup: this.config.resourceGroup ?? "default",
+      tags: usageTags,
+      usage,
+    });
+  }
+
+  /**
+   * Looks up the response of a call in the provider's response cache.
+   *
+   * @param options - Call options from the AI SDK
+   * @returns The cache key, the cached response if any, and the request
+   *   for `rawCall`, or `undefined` when the call bypasses the cache
+   *
+   * @internal
+   */
+  private async readCache(options: LanguageModelV2CallOptions): Promise<
+    | {
+        cache: SAPAICache;
+        key: string;
+        cached?: SAPAICachedResponse;
+        rawPrompt: unknown;
+        warnings: LanguageModelV2CallWarning[];
+      }
+    | undefined
+  > {
+    const { cache } = this.config;
+    if (!cache) return undefined;
+
+    const {
+      orchestrationConfig,
+      messages,
+      placeholderValues,
+      dryRun,
+      cache: enabled,
+      warnings,
+    } = await this.buildOrchestrationConfig(options);
+    if (dryRun || !enabled) return undefined;
+
+    const rawPrompt = {
+      config: orchestrationConfig,
+      messages,
+      placeholderValues,
+    };
+    const key = await createCacheKey({
+      ...rawPrompt,
+      fallbackModels: this.settings.fallbackModels,
+      deployment: this.config.deploymentConfig,
+    });
+
+    // A failing cache store must not fail the call
+    const cached = await cache.get(key).catch(() => undefined);
+    return { cache, key, cached, rawPrompt, warnings };
   }
 
   /**
@@ -348,23 +1844,155 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
    * console.log(result.usage);   // Token usage
    * ```
    */
-  async doGenerate(options: LanguageModelV2CallOptions): Promise<{
-    content: LanguageModelV2Content[];
-    finishReason: LanguageModelV2FinishReason;
-    usage: LanguageModelV2Usage;
-    rawCall: { rawPrompt: unknown; rawSettings: Record<string, unknown> };
-    warnings: LanguageModelV2CallWarning[];
-  }> {
-    const { orchestrationConfig, messages, warnings } =
-      this.buildOrchestrationConfig(options);
+  async doGenerate(
+    options: LanguageModelV2CallOptions,
+  ): Promise<SAPAIGenerateResult> {
+    const callOptions = await this.inlineImages(options);
+    const lookup = await this.readCache(callOptions);
+    if (lookup?.cached) {
+      const { cached } = lookup;
+      return {
+        content: cached.content,
+        finishReason: cached.finishReason,
+        usage: cached.usage,
+        rawCall: { rawPrompt: lookup.rawPrompt, rawSettings: {} },
+        response: { modelId: cached.modelId },
+        providerMetadata: markCached(cached.providerMetadata),
+        warnings: lookup.warnings,
+      };
+    }
+
+    const result = await this.withFallback((model, fallbacks) =>
+      model.generate(callOptions, fallbacks),
+    );
+
+    if (lookup) {
+      await lookup.cache
+        .set(lookup.key, {
+          content: result.content,
+          finishReason: result.finishReason,
+          usage: result.usage,
+          modelId: result.response?.modelId,
+          providerMetadata: result.providerMetadata,
+          createdAt: Date.now(),
+        })
+        .catch(() => undefined);
+    }
 
-    const client = this.createClient(orchestrationConfig);
+    return result;
+  }
 
-    const response = await client.chatCompletion({
+  /**
+   * Sends a non-streaming request for this model.
+   *
+   * @param options - Generation options including prompt, tools, and settings
+   * @param fallbacks - Models sent as service-side fallbacks
+   * @returns Promise resolving to the generation result
+   *
+   * @internal
+   */
+  private async generate(
+    options: LanguageModelV2CallOptions,
+    fallbacks: SAPAIChatLanguageModel[],
+  ): Promise<SAPAIGenerateResult> {
+    const {
+      orchestrationConfig,
       messages,
+      placeholderValues,
+      renderedMessages,
+      dryRun,
+      priority,
+      usageTags,
+      warnings,
+    } = await this.buildOrchestrationConfig(options);
+
+    if (dryRun) {
+      return {
+        content: [],
+        finishReason: "other",
+        usage: {
+          inputTokens: undefined,
+          outputTokens: undefined,
+          totalTokens: undefined,
+        },
+        rawCall: {
+          rawPrompt: {
+            config: orchestrationConfig,
+            messages,
+            placeholderValues,
+          },
+          rawSettings: {},
+        },
+        providerMetadata: createDryRunMetadata(
+          messages,
+          renderedMessages,
+          placeholderValues,
+        ),
+        warnings,
+      };
+    }
+
+    await this.validateDeployments(fallbacks);
+    const request = await this.buildFallbackRequest(
+      options,
+      fallbacks,
+      { orchestrationConfig, messages },
+      warnings,
+    );
+    const { client, deploymentId } = await this.createClient(request.config);
+
+    let queueWaitMs: number | undefined;
+    const response = await withRetry(
+      async () => {
+        const permit = await this.config.rateLimiter?.acquire({
+          priority,
+          abortSignal: options.abortSignal,
+        });
+        if (permit) {
+          queueWaitMs = (queueWaitMs ?? 0) + permit.waitMs;
+        }
+
+        try {
+          const response = await client.chatCompletion(
+            { messages: request.messages, placeholderValues },
+            { signal: options.abortSignal },
+          );
+          permit?.release(response.getTokenUsage().total_tokens);
+          return response;
+        } catch (error) {
+          permit?.release();
+          throw error;
+        }
+      },
+      this.config.retry,
+      options.abortSignal,
+    ).catch((error: unknown) => {
+      this.invalidateDeployment(deploymentId, error);
+      throw (
+        toContentFilterError(error, orchestrationConfig.filtering) ??
+        normalizeError(error)
+      );
     });
 
     const content: LanguageModelV2Content[] = [];
+    const moduleResults = response.getIntermediateResults();
+    const modelId =
+      fallbacks.length > 0
+        ? (resolveAnsweringModel(
+            [this.modelId, ...fallbacks.map((model) => model.modelId)],
+            response._data.final_result.model,
+          ) ?? this.modelId)
+        : this.modelId;
+
+    // Surface retrieved grounding chunks as sources
+    content.push(...extractGroundingSources(moduleResults));
+
+    // Extract reasoning, which precedes the answer
+    content.push(
+      ...convertReasoningBlocks(
+        response.findChoiceByIndex(0)?.message.reasoning_content,
+      ),
+    );
 
     // Extract text content
     const textContent = response.getContent();
@@ -392,6 +2020,9 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
     // Get usage
     const tokenUsage = response.getTokenUsage();
 
+    const usage = convertTokenUsage(tokenUsage);
+    this.recordUsage(modelId, usage, usageTags);
+
     // Map finish reason
     const finishReasonRaw = response.getFinishReason();
     const finishReason = mapFinishReason(finishReasonRaw);
@@ -399,15 +2030,20 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
     return {
       content,
       finishReason,
-      usage: {
-        inputTokens: tokenUsage.prompt_tokens,
-        outputTokens: tokenUsage.completion_tokens,
-        totalTokens: tokenUsage.total_tokens,
-      },
+      usage,
       rawCall: {
-        rawPrompt: { config: orchestrationConfig, messages },
+        rawPrompt: { config: orchestrationConfig, messages, placeholderValues },
         rawSettings: {},
       },
+      response: { modelId },
+      providerMetadata: createProviderMetadata(
+        modelId,
+        response.getRequestId(),
+        moduleResults,
+        orchestrationConfig,
+        queueWaitMs,
+        getAlternatives(response, response._data.final_result.choices),
+      ),
       warnings,
     };
   }
@@ -446,21 +2082,160 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
    * }
    * ```
    */
-  async doStream(options: LanguageModelV2CallOptions): Promise<{
-    stream: ReadableStream<LanguageModelV2StreamPart>;
-    rawCall: { rawPrompt: unknown; rawSettings: Record<string, unknown> };
-  }> {
-    const { orchestrationConfig, messages, warnings } =
-      this.buildOrchestrationConfig(options);
+  async doStream(
+    options: LanguageModelV2CallOptions,
+  ): Promise<SAPAIStreamResult> {
+    const callOptions = await this.inlineImages(options);
+    const lookup = await this.readCache(callOptions);
+    if (lookup?.cached) {
+      return {
+        stream: createCachedStream(
+          lookup.cached,
+          lookup.warnings,
+          markCached(lookup.cached.providerMetadata),
+        ),
+        rawCall: { rawPrompt: lookup.rawPrompt, rawSettings: {} },
+      };
+    }
 
-    const client = this.createClient(orchestrationConfig);
+    const result = await this.withFallback((model, fallbacks) =>
+      model.stream(callOptions, fallbacks),
+    );
+    if (!lookup) return result;
 
-    const streamResponse = await client.stream(
-      { messages },
-      options.abortSignal,
-      { promptTemplating: { include_usage: true } },
+    // Cache the response once the stream finished
+    const { cache, key } = lookup;
+    return {
+      ...result,
+      stream: collectStream(result.stream, (response) =>
+        cache.set(key, response).catch(() => undefined),
+      ),
+    };
+  }
+
+  /**
+   * Sends a streaming request for this model.
+   *
+   * Fallback models are only tried while the stream is being opened;
+   * errors during streaming are emitted as `error` parts.
+   *
+   * @param options - Streaming options including prompt, tools, and settings
+   * @param fallbacks - Models sent as service-side fallbacks
+   * @returns Promise resolving to stream and raw call metadata
+   *
+   * @internal
+   */
+  private async stream(
+    options: LanguageModelV2CallOptions,
+    fallbacks: SAPAIChatLanguageModel[],
+  ): Promise<SAPAIStreamResult> {
+    const {
+      orchestrationConfig,
+      messages,
+      placeholderValues,
+      renderedMessages,
+      dryRun,
+      priority,
+      usageTags,
+      warnings,
+    } = await this.buildOrchestrationConfig(options);
+
+    if (dryRun) {
+      return {
+        stream: new ReadableStream<LanguageModelV2StreamPart>({
+          start(controller) {
+            controller.enqueue({ type: "stream-start", warnings });
+            controller.enqueue({
+              type: "finish",
+              finishReason: "other",
+              usage: {
+                inputTokens: undefined,
+                outputTokens: undefined,
+                totalTokens: undefined,
+              },
+              providerMetadata: createDryRunMetadata(
+                messages,
+                renderedMessages,
+                placeholderValues,
+              ),
+            });
+            controller.close();
+          },
+        }),
+        rawCall: {
+          rawPrompt: {
+            config: orchestrationConfig,
+            messages,
+            placeholderValues,
+          },
+          rawSettings: {},
+        },
+      };
+    }
+
+    await this.validateDeployments(fallbacks);
+    const request = await this.buildFallbackRequest(
+      options,
+      fallbacks,
+      { orchestrationConfig, messages },
+      warnings,
     );
+    const { client, deploymentId } = await this.createClient(request.config);
+    const candidateIds = [
+      this.modelId,
+      ...fallbacks.map((model) => model.modelId),
+    ];
+
+    // Aborted by the caller's signal, or when the returned stream is cancelled
+    const abortController = new AbortController();
+    const abortRequest = () => {
+      abortController.abort(options.abortSignal?.reason);
+    };
+    if (options.abortSignal?.aborted) abortRequest();
+    options.abortSignal?.addEventListener("abort", abortRequest);
+    const stopAbortListener = () => {
+      options.abortSignal?.removeEventListener("abort", abortRequest);
+    };
+
+    // Read the first chunk before returning, so that requests failing
+    // before any output can still be retried or fall back
+    let queueWaitMs: number | undefined;
+    const { streamResponse, chunks, firstChunk, permit } = await withRetry(
+      async () => {
+        const permit = await this.config.rateLimiter?.acquire({
+          priority,
+          abortSignal: options.abortSignal,
+        });
+        if (permit) {
+          queueWaitMs = (queueWaitMs ?? 0) + permit.waitMs;
+        }
+
+        try {
+          const streamResponse = await client.stream(
+            { messages: request.messages, placeholderValues },
+            abortController.signal,
+            { promptTemplating: { include_usage: true } },
+          );
+          const chunks = streamResponse.stream[Symbol.asyncIterator]();
+          const firstChunk = await chunks.next();
+          return { streamResponse, chunks, firstChunk, permit };
+        } catch (error) {
+          permit?.release();
+          throw error;
+        }
+      },
+      this.config.retry,
+      options.abortSignal,
+    ).catch((error: unknown) => {
+      stopAbortListener();
+      this.invalidateDeployment(deploymentId, error);
+      throw (
+        toContentFilterError(error, orchestrationConfig.filtering) ??
+        normalizeError(error)
+      );
+    });
 
+    let cancelled = false;
     let finishReason: LanguageModelV2FinishReason = "unknown";
     const usage: LanguageModelV2Usage = {
       inputTokens: undefined,
@@ -468,8 +2243,14 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
       totalTokens: undefined,
     };
 
+    let modelId: string = this.modelId;
     let isFirstChunk = true;
     let activeText = false;
+    let activeReasoning = false;
+    let reasoningSignature: string | undefined;
+    let sourcesEmitted = false;
+    const moduleResults: OrchestrationModuleResults & Record<string, unknown> =
+      {};
 
     // Track tool calls being built up
     const toolCallsInProgress = new Map<
@@ -477,27 +2258,101 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
       { id: string; name: string; arguments: string }
     >();
 
-    const sdkStream = streamResponse.stream;
+    const recordUsage = this.recordUsage.bind(this);
 
     const transformedStream = new ReadableStream<LanguageModelV2StreamPart>({
       async start(controller) {
         controller.enqueue({ type: "stream-start", warnings });
 
+        // Reasoning ends once the answer or a tool call starts
+        const endReasoning = () => {
+          if (!activeReasoning) return;
+          activeReasoning = false;
+          controller.enqueue({
+            type: "reasoning-end",
+            id: "reasoning-0",
+            ...(reasoningSignature
+              ? {
+                  providerMetadata: {
+                    "sap-ai": { signature: reasoningSignature },
+                  },
+                }
+              : {}),
+          });
+        };
+
         try {
-          for await (const chunk of sdkStream) {
+          for (
+            let result = firstChunk;
+            !result.done && !cancelled;
+            result = await chunks.next()
+          ) {
+            const chunk = result.value;
+
+            // With service-side fallback, the LLM result names the model that answered
+            if (fallbacks.length > 0) {
+              modelId =
+                resolveAnsweringModel(
+                  candidateIds,
+                  chunk._data.final_result?.model,
+                ) ?? modelId;
+            }
+
             if (isFirstChunk) {
               isFirstChunk = false;
               controller.enqueue({
                 type: "response-metadata",
                 id: undefined,
-                modelId: undefined,
+                modelId,
                 timestamp: new Date(),
               });
             }
 
+            const chunkResults = chunk.getIntermediateResults();
+            // Accumulate module results, which arrive spread across chunks
+            for (const [key, value] of Object.entries(chunkResults ?? {})) {
+              if (!STREAMING_DELTA_RESULTS.has(key)) {
+                moduleResults[key] = value;
+              }
+            }
+
+            // Emit retrieved grounding chunks once they arrive
+            if (!sourcesEmitted) {
+              const sources = extractGroundingSources(chunkResults);
+              if (sources.length > 0) {
+                sourcesEmitted = true;
+                for (const source of sources) {
+                  controller.enqueue(source);
+                }
+              }
+            }
+
+            // Get delta reasoning, streamed before the answer
+            const reasoningBlocks =
+              chunk.findChoiceByIndex(0)?.delta.reasoning_content;
+            for (const block of reasoningBlocks ?? []) {
+              if (block.signature) {
+                reasoningSignature = block.signature;
+              }
+              if (!block.content) continue;
+              if (!activeReasoning) {
+                controller.enqueue({
+                  type: "reasoning-start",
+                  id: "reasoning-0",
+                });
+                activeReasoning = true;
+              }
+              controller.enqueue({
+                type: "reasoning-delta",
+                id: "reasoning-0",
+                delta: block.content,
+              });
+            }
+
             // Get delta content
             const deltaContent = chunk.getDeltaContent();
             if (deltaContent) {
+              endReasoning();
               if (!activeText) {
                 controller.enqueue({ type: "text-start", id: "0" });
                 activeText = true;
@@ -512,6 +2367,7 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
             // Handle tool calls
             const deltaToolCalls = chunk.getDeltaToolCalls();
             if (deltaToolCalls) {
+              endReasoning();
               for (const toolCallChunk of deltaToolCalls) {
                 const index = toolCallChunk.index;
 
@@ -569,12 +2425,13 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
             // Get usage from chunk
             const chunkUsage = chunk.getTokenUsage();
             if (chunkUsage) {
-              usage.inputTokens = chunkUsage.prompt_tokens;
-              usage.outputTokens = chunkUsage.completion_tokens;
-              usage.totalTokens = chunkUsage.total_tokens;
+              Object.assign(usage, convertTokenUsage(chunkUsage));
             }
           }
 
+          if (cancelled) return;
+          endReasoning();
+
           // Emit completed tool calls
           const toolCalls = Array.from(toolCallsInProgress.values());
           for (const tc of toolCalls) {
@@ -597,9 +2454,7 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
           // Try to get final usage from stream response
           const finalUsage = streamResponse.getTokenUsage();
           if (finalUsage) {
-            usage.inputTokens = finalUsage.prompt_tokens;
-            usage.outputTokens = finalUsage.completion_tokens;
-            usage.totalTokens = finalUsage.total_tokens;
+            Object.assign(usage, convertTokenUsage(finalUsage));
           }
 
           // Get final finish reason
@@ -608,27 +2463,52 @@ export class SAPAIChatLanguageModel implements LanguageModelV2 {
             finishReason = mapFinishReason(finalFinishReason);
           }
 
+          recordUsage(modelId, usage, usageTags);
+
           controller.enqueue({
             type: "finish",
             finishReason,
             usage,
+            providerMetadata: createProviderMetadata(
+              modelId,
+              streamResponse.getRequestId(),
+              moduleResults,
+              orchestrationConfig,
+              queueWaitMs,
+              getAlternatives(
+                streamResponse,
+                streamResponse._data.final_result?.choices,
+              ),
+            ),
           });
 
           controller.close();
         } catch (error) {
+          // Reading fails with an abort error once the stream was cancelled
+          if (cancelled) return;
           controller.enqueue({
             type: "error",
-            error: error instanceof Error ? error : new Error(String(error)),
+            error: normalizeError(error),
           });
           controller.close();
+        } finally {
+          // The stream occupied a concurrency slot until its last chunk
+          permit?.release(usage.totalTokens);
+          stopAbortListener();
         }
       },
+      cancel() {
+        cancelled = true;
+        permit?.release(usage.totalTokens);
+        stopAbortListener();
+        abortController.abort();
+      },
     });
 
     return {
       stream: transformedStream,
       rawCall: {
-        rawPrompt: { config: orchestrationConfig, messages },
+        rawPrompt: { config: orchestrationConfig, messages, placeholderValues },
         rawSettings: {},
       },
     };
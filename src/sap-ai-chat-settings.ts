@@ -1,10 +1,85 @@
 import type {
   MaskingModule,
   FilteringModule,
+  GroundingModule,
+  TranslationModule,
   ChatModel,
   ChatCompletionTool,
+  ChatMessage,
 } from "@sap-ai-sdk/orchestration";
 
+/**
+ * Prompt template for the orchestration templating module.
+ *
+ * Either a reference to a template in the SAP AI Core prompt registry
+ * (by ID or by scenario, name and version), or an inline template.
+ * Templates use `{{?placeholder}}` variables that are filled from
+ * `placeholderValues`.
+ */
+export type SAPAIPromptTemplate =
+  | {
+      /** ID of the template in the prompt registry */
+      id: string;
+      /** Where the template is stored. */
+      scope?: "resource_group" | "tenant";
+    }
+  | {
+      /** Scenario of the template in the prompt registry */
+      scenario: string;
+      /** Name of the template */
+      name: string;
+      /** Version of the template */
+      version: string;
+      /** Where the template is stored. */
+      scope?: "resource_group" | "tenant";
+    }
+  | {
+      /** Chat messages with `{{?placeholder}}` variables */
+      template: ChatMessage[];
+      /** Default values for placeholders without a value */
+      defaults?: Record<string, string>;
+    };
+
+/**
+ * A fallback model with its own version and model parameters.
+ */
+export interface SAPAIFallbackModel {
+  /** The model identifier */
+  modelId: SAPAIModelId;
+
+  /**
+   * Specific version of the model to use.
+   * If not provided, the latest version will be used.
+   */
+  modelVersion?: string;
+
+  /** Model parameters merged over the `modelParams` of the primary model */
+  modelParams?: SAPAISettings["modelParams"];
+}
+
+/**
+ * Reasoning (thinking) configuration for models that support it.
+ *
+ * Mapped per model family: `reasoning_effort` for OpenAI o-series models,
+ * a thinking token budget for Anthropic Claude, Gemini 2.5 and Cohere
+ * reasoning models.
+ */
+export interface SAPAIReasoningSettings {
+  /**
+   * How much the model should reason before answering.
+   * Models with a thinking budget get 2048 (`low`), 8192 (`medium`)
+   * or 16384 (`high`) tokens.
+   */
+  effort?: "low" | "medium" | "high";
+
+  /**
+   * Maximum number of tokens spent on reasoning; takes precedence over
+   * `effort` for models with a thinking budget. For OpenAI models it is
+   * mapped to the closest effort.
+   */
+  budgetTokens?: number;
+}
+
 /**
  * Settings for configuring SAP AI Core model behavior.
  */
@@ -55,7 +130,8 @@ export interface SAPAISettings {
 
     /**
      * Number of completions to generate.
-     * Multiple completions provide alternative responses.
+     * Multiple completions provide alternative responses, returned in
+     * `providerMetadata['sap-ai'].alternatives` (see `getCandidates`).
      * Note: Not supported by Amazon and Anthropic models.
      * @default 1
      */
@@ -68,6 +144,88 @@ export interface SAPAISettings {
     parallel_tool_calls?: boolean;
   };
 
+  /**
+   * Reasoning effort or thinking budget for reasoning models, e.g.
+   * o3, `anthropic--claude-3.7-sonnet` or `cohere--command-a-reasoning`.
+   * Ignored with a warning for models without reasoning support.
+   *
+   * The reasoning text is returned as `reasoning` content (and
+   * `reasoning-*` stream parts), reasoning tokens in `usage.reasoningTokens`.
+   *
+   * @example
+   * ```typescript
+   * const model = provider('anthropic--claude-3.7-sonnet', {
+   *   reasoning: { budgetTokens: 4096 }
+   * });
+   * ```
+   */
+  reasoning?: SAPAIReasoningSettings;
+
+  /**
+   * Models tried in order when a call fails with a retryable error:
+   * throttling (429), timeouts, server errors (5xx) or network failures.
+   *
+   * Each fallback uses its own model capabilities, and inherits all other
+   * settings of this model. The model that answered is reported in
+   * `response.modelId` and `providerMetadata['sap-ai'].modelId`.
+   *
+   * @example
+   * ```typescript
+   * const model = provider('gpt-4o', {
+   *   fallbackModels: [
+   *     'gpt-4.1',
+   *     { modelId: 'anthropic--claude-3.7-sonnet', modelParams: { temperature: 0.2 } }
+   *   ]
+   * });
+   * ```
+   */
+  fallbackModels?: (SAPAIModelId | SAPAIFallbackModel)[];
+
+  /**
+   * Where fallback models are tried.
+   *
+   * - `client`: Each model is called in turn until one succeeds.
+   * - `service`: All models are sent as an orchestration config list in a
+   *   single request, and the orchestration service falls back on its side.
+   *   Each config carries the settings, warnings and prompt adjustments
+   *   (e.g. the JSON schema instruction) of its own model. Models that need
+   *   other messages than the first one cannot use a prompt registry
+   *   template.
+   *
+   * @default 'client'
+   */
+  fallbackStrategy?: "client" | "service";
+
+  /**
+   * Queue priority when the provider has a rate limit configured.
+   * Requests with higher priority are sent first; set it per call via
+   * `providerOptions['sap-ai'].priority`.
+   *
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Whether calls read from and write to the provider's response cache.
+   * Set it to `false` per call via `providerOptions['sap-ai'].cache` to
+   * always send the request. Has no effect without `SAPAIProviderSettings.cache`.
+   *
+   * @default true
+   */
+  cache?: boolean;
+
+  /**
+   * Custom tags under which the usage of this model is recorded by the
+   * provider's usage tracker, e.g. team or cost center.
+   * Tags passed via `providerOptions['sap-ai'].usageTags` are merged over these.
+   *
+   * @example
+   * ```typescript
+   * usageTags: { team: 'support', costCenter: 'CC-4711' }
+   * ```
+   */
+  usageTags?: Record<string, string>;
+
   /**
    * Masking configuration for SAP AI Core orchestration.
    * When provided, sensitive information in prompts can be anonymized or
@@ -115,10 +273,114 @@ export interface SAPAISettings {
    */
   filtering?: FilteringModule;
 
+  /**
+   * Document grounding configuration for SAP AI Core orchestration.
+   * Retrieves relevant chunks from the configured data repositories and
+   * provides them to the model via the output placeholder.
+   *
+   * The input placeholders are filled with the text of the latest user message.
+   * If no message references the output placeholder (e.g. `{{?groundingOutput}}`),
+   * the retrieved context is added to the system message.
+   * Retrieved chunks are returned as `source` content parts.
+   *
+   * @example
+   * ```typescript
+   * import { buildDocumentGroundingConfig } from '@sap-ai-sdk/orchestration';
+   *
+   * const model = provider('gpt-4o', {
+   *   grounding: buildDocumentGroundingConfig({
+   *     filters: [{ id: 'hr-docs', data_repositories: ['*'] }],
+   *     placeholders: { input: ['groundingInput'], output: 'groundingOutput' }
+   *   })
+   * });
+   * ```
+   */
+  grounding?: GroundingModule;
+
+  /**
+   * Translation configuration for SAP AI Core orchestration.
+   * Translates the prompt into the model's language before the call and the
+   * response back into the user's language afterwards, using SAP Document Translation.
+   * Detected languages and translated prompts are reported in
+   * `providerMetadata['sap-ai'].translation`.
+   *
+   * @example
+   * ```typescript
+   * import { buildTranslationConfig } from '@sap-ai-sdk/orchestration';
+   *
+   * const model = provider('gpt-4o', {
+   *   translation: {
+   *     input: buildTranslationConfig('input', { targetLanguage: 'en-US' }),
+   *     output: buildTranslationConfig('output', { targetLanguage: 'de-DE' })
+   *   }
+   * });
+   * ```
+   */
+  translation?: TranslationModule;
+
+  /**
+   * Prompt template rendered by the orchestration service.
+   *
+   * - Inline templates are followed by the messages of the AI SDK prompt.
+   * - Referenced templates are loaded from the prompt registry; the AI SDK
+   *   prompt is sent as message history before the template. Tools and
+   *   response formats are then taken from the stored template.
+   *
+   * @example
+   * ```typescript
+   * // Template from the prompt registry
+   * const model = provider('gpt-4o', {
+   *   promptTemplate: { scenario: 'support', name: 'ticket-triage', version: '1.0.0' }
+   * });
+   *
+   * // Inline template
+   * const model = provider('gpt-4o', {
+   *   promptTemplate: {
+   *     template: [{ role: 'system', content: 'You answer questions about {{?product}}.' }],
+   *     defaults: { product: 'SAP S/4HANA' }
+   *   }
+   * });
+   * ```
+   */
+  promptTemplate?: SAPAIPromptTemplate;
+
+  /**
+   * Values for the `{{?placeholder}}` variables of the prompt template.
+   * Values passed via `providerOptions['sap-ai'].placeholderValues` are merged over these.
+   *
+   * @example
+   * ```typescript
+   * await generateText({
+   *   model,
+   *   prompt: 'How do I post a goods receipt?',
+   *   providerOptions: { 'sap-ai': { placeholderValues: { product: 'SAP EWM' } } }
+   * });
+   * ```
+   */
+  placeholderValues?: Record<string, string>;
+
+  /**
+   * Builds and renders the request without sending it to SAP AI Core.
+   *
+   * The result has no content and the `other` finish reason.
+   * `providerMetadata['sap-ai']` contains the locally rendered prompt
+   * (`renderedMessages`) and the `placeholderValues`. Unresolved placeholders
+   * throw a `SAPAITemplateError`, as they do for regular calls.
+   *
+   * Usually enabled per call via `providerOptions['sap-ai'].dryRun`.
+   *
+   * @default false
+   */
+  dryRun?: boolean;
+
   /**
    * Response format for templating prompt (OpenAI-compatible).
    * Allows specifying structured output formats.
    *
+   * A response format from the AI SDK call (e.g. `generateObject`) takes precedence.
+   * Schemas from the call inherit `name`, `description` and `strict` from a
+   * `json_schema` format configured here.
+   *
    * @example
    * ```typescript
    * const model = provider('gpt-4o', {
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseContentFilterResults,
+  toContentFilterError,
+} from "./sap-ai-content-filter";
+import { SAPAIContentFilterError } from "./sap-ai-error";
+
+describe("parseContentFilterResults", () => {
+  it("should compare Azure severities against configured thresholds", () => {
+    const results = parseContentFilterResults(
+      {
+        data: {
+          azure_content_safety: {
+            Hate: 2,
+            SelfHarm: 2,
+            Sexual: 0,
+            Violence: 4,
+          },
+        },
+      },
+      [
+        {
+          type: "azure_content_safety",
+          config: { hate: 2, self_harm: 0, violence: 4 },
+        },
+      ],
+    );
+
+    expect(results).toEqual([
+      {
+        filter: "azure_content_safety",
+        categories: { Hate: 2, SelfHarm: 2, Sexual: 0, Violence: 4 },
+        triggeredCategories: ["SelfHarm"],
+      },
+    ]);
+  });
+
+  it("should report Llama Guard violations and prompt attacks", () => {
+    const results = parseContentFilterResults({
+      data: {
+        azure_content_safety: {
+          Hate: 0,
+          userPromptAnalysis: { attackDetected: true },
+        },
+        llama_guard_3_8b: { violent_crimes: true, privacy: false },
+      },
+    });
+
+    expect(results.map((r) => r.triggeredCategories)).toEqual([
+      ["userPromptAnalysis.attackDetected"],
+      ["violent_crimes"],
+    ]);
+  });
+
+  it("should read output filter results per choice", () => {
+    const results = parseContentFilterResults({
+      data: {
+        choices: [{ index: 0, azure_content_safety: { Violence: 6 } }],
+      },
+    });
+
+    expect(results).toEqual([
+      {
+        filter: "azure_content_safety",
+        categories: { Violence: 6 },
+        triggeredCategories: ["Violence"],
+      },
+    ]);
+  });
+
+  it("should return an empty list without results", () => {
+    expect(parseContentFilterResults(undefined)).toEqual([]);
+    expect(parseContentFilterResults({ data: {} })).toEqual([]);
+  });
+});
+
+describe("toContentFilterError", () => {
+  const createHttpError = (error: unknown) =>
+    Object.assign(new Error("Request failed with status code 400."), {
+      cause: { response: { data: { error } } },
+    });
+
+  it("should convert output filter errors", () => {
+    const error = toContentFilterError(
+      createHttpError([
+        {
+          request_id: "request-123",
+          code: 400,
+          message: "Content filtered due to safety violations.",
+          location: "Filtering Module - Output Filter",
+          intermediate_results: {
+            output_filtering: {
+              message: "Content filtered due to safety violations.",
+              data: {
+                choices: [{ index: 0, llama_guard_3_8b: { hate: true } }],
+              },
+            },
+          },
+        },
+      ]),
+      undefined,
+    );
+
+    expect(error).toBeInstanceOf(SAPAIContentFilterError);
+    expect(error?.direction).toBe("output");
+    expect(error?.code).toBe(400);
+    expect(error?.filterResults[0].triggeredCategories).toEqual(["hate"]);
+  });
+
+  it("should ignore errors from other modules", () => {
+    const error = toContentFilterError(
+      createHttpError({
+        request_id: "request-123",
+        code: 400,
+        message: "Model name must be one of ...",
+        location: "LLM Module",
+      }),
+      undefined,
+    );
+
+    expect(error).toBeUndefined();
+    expect(toContentFilterError(new Error("Network error"), undefined)).toBe(
+      undefined,
+    );
+  });
+});
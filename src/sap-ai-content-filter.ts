@@ -0,0 +1,186 @@
+import type {
+  FilteringModule,
+  OrchestrationErrorResponse,
+} from "@sap-ai-sdk/orchestration";
+import { SAPAIContentFilterError } from "./sap-ai-error";
+
+/**
+ * Outcome of a single content filter (Azure Content Safety or Llama Guard).
+ */
+export interface SAPAIContentFilterResult {
+  /** Filter type, e.g. `azure_content_safety` or `llama_guard_3_8b` */
+  filter: string;
+
+  /**
+   * Result per category as reported by the filter.
+   * Azure Content Safety reports severity levels (0, 2, 4, 6),
+   * Llama Guard reports whether a category was violated.
+   */
+  categories: Record<string, number | boolean>;
+
+  /**
+   * Categories that caused the content to be blocked: severities above the
+   * configured threshold, or flags such as Llama Guard violations and
+   * detected prompt attacks.
+   */
+  triggeredCategories: string[];
+}
+
+/**
+ * Filter configuration as found in `FilteringModule.input/output.filters`.
+ * @internal
+ */
+interface FilterConfig {
+  type: string;
+  config?: object;
+}
+
+/**
+ * Checks that a value is a plain object.
+ * @internal
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Normalizes category names, so that `self_harm` (config) matches `SelfHarm` (result).
+ * @internal
+ */
+function normalizeCategory(name: string): string {
+  return name.replace(/_/g, "").toLowerCase();
+}
+
+/**
+ * Flattens the category results of a filter, e.g.
+ * `{ userPromptAnalysis: { attackDetected: true } }` becomes
+ * `{ 'userPromptAnalysis.attackDetected': true }`.
+ *
+ * @internal
+ */
+function flattenCategories(
+  result: Record<string, unknown>,
+  prefix = "",
+): Record<string, number | boolean> {
+  const categories: Record<string, number | boolean> = {};
+
+  for (const [key, value] of Object.entries(result)) {
+    if (typeof value === "number" || typeof value === "boolean") {
+      categories[`${prefix}${key}`] = value;
+    } else if (isRecord(value)) {
+      Object.assign(categories, flattenCategories(value, `${prefix}${key}.`));
+    }
+  }
+
+  return categories;
+}
+
+/**
+ * Parses the result of an input or output filtering module.
+ *
+ * @param moduleResult - `input_filtering` or `output_filtering` module result
+ * @param filters - Configured filters of the same direction, used for thresholds
+ * @returns One result per filter that reported categories
+ *
+ * @internal
+ */
+export function parseContentFilterResults(
+  moduleResult: { data?: Record<string, unknown> } | undefined,
+  filters: FilterConfig[] = [],
+): SAPAIContentFilterResult[] {
+  let data = moduleResult?.data;
+
+  // Output filtering reports results per choice
+  if (Array.isArray(data?.choices) && isRecord(data.choices[0])) {
+    data = data.choices[0];
+  }
+
+  if (!data) return [];
+
+  return Object.entries(data).flatMap(([filter, result]) => {
+    if (!isRecord(result)) return [];
+
+    const categories = flattenCategories(result);
+    const thresholds = new Map<string, unknown>(
+      Object.entries(
+        filters.find((candidate) => candidate.type === filter)?.config ?? {},
+      ).map(([name, threshold]) => [normalizeCategory(name), threshold]),
+    );
+
+    const triggeredCategories = Object.entries(categories)
+      .filter(([name, value]) => {
+        if (typeof value === "boolean") return value;
+        const threshold = thresholds.get(normalizeCategory(name));
+        return value > (typeof threshold === "number" ? threshold : 0);
+      })
+      .map(([name]) => name);
+
+    if (Object.keys(categories).length === 0) return [];
+
+    return [{ filter, categories, triggeredCategories }];
+  });
+}
+
+/**
+ * Finds the orchestration error response in an error thrown by the SAP AI SDK.
+ * HTTP errors are wrapped, with the response body at `cause.response.data`.
+ *
+ * @internal
+ */
+function findOrchestrationErrorResponse(
+  error: unknown,
+): OrchestrationErrorResponse | undefined {
+  let current: unknown = error;
+
+  for (let depth = 0; depth < 5 && isRecord(current); depth++) {
+    const data = isRecord(current.response) ? current.response.data : undefined;
+    if (isRecord(data) && data.error !== undefined) {
+      return data as OrchestrationErrorResponse;
+    }
+    current = current.cause;
+  }
+
+  return undefined;
+}
+
+/**
+ * Converts an error thrown by the orchestration client into a
+ * {@link SAPAIContentFilterError} if it was caused by a content filter.
+ *
+ * @param error - Error thrown by the SAP AI SDK
+ * @param filtering - Filtering module configuration of the call
+ * @returns The content filter error, or `undefined` for other errors
+ *
+ * @internal
+ */
+export function toContentFilterError(
+  error: unknown,
+  filtering: FilteringModule | undefined,
+): SAPAIContentFilterError | undefined {
+  const response = findOrchestrationErrorResponse(error);
+  const details = Array.isArray(response?.error)
+    ? response.error[0]
+    : response?.error;
+
+  if (!details?.location || !/filter/i.test(details.location)) {
+    return undefined;
+  }
+
+  const direction = /output/i.test(details.location) ? "output" : "input";
+  const moduleResult =
+    direction === "input"
+      ? details.intermediate_results?.input_filtering
+      : details.intermediate_results?.output_filtering;
+
+  return new SAPAIContentFilterError(details.message, {
+    direction,
+    filterResults: parseContentFilterResults(
+      moduleResult,
+      filtering?.[direction]?.filters,
+    ),
+    code: details.code,
+    location: details.location,
+    requestId: details.request_id,
+    cause: error,
+  });
+}
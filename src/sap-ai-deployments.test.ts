@@ -0,0 +1,344 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import {
+  createDeploymentResolver,
+  createModelValidator,
+  findOrchestrationDeployment,
+  isStaleDeploymentError,
+  listDeployments,
+  listModels,
+} from "./sap-ai-deployments";
+import { SAPAIError, SAPAIModelNotDeployedError } from "./sap-ai-error";
+
+const mockState = vi.hoisted(
+  (): {
+    resources: unknown[];
+    queries: unknown[][];
+    destinations: unknown[];
+  } => ({ resources: [], queries: [], destinations: [] }),
+);
+
+vi.mock("@sap-ai-sdk/ai-api", () => ({
+  DeploymentApi: {
+    deploymentQuery: (...query: unknown[]) => {
+      mockState.queries.push(query);
+      return {
+        execute: (destination: unknown) => {
+          mockState.destinations.push(destination);
+          return Promise.resolve({
+            count: mockState.resources.length,
+            resources: mockState.resources,
+          });
+        },
+      };
+    },
+  },
+}));
+
+const modelDeployment = (
+  id: string,
+  name: string,
+  status = "RUNNING",
+  version = "2024-08-06",
+) => ({
+  id,
+  configurationId: `config-${id}`,
+  scenarioId: "foundation-models",
+  status,
+  details: {
+    resources: { backendDetails: { model: { name, version } } },
+  },
+  createdAt: "2025-01-01T00:00:00Z",
+  modifiedAt: "2025-01-01T00:00:00Z",
+});
+
+describe("listDeployments", () => {
+  beforeEach(() => {
+    mockState.queries = [];
+    mockState.destinations = [];
+    mockState.resources = [
+      {
+        id: "orchestration-1",
+        configurationId: "config-1",
+        configurationName: "orchestration",
+        scenarioId: "orchestration",
+        status: "RUNNING",
+        deploymentUrl: "https://api.example.com/v2/inference/deployments/1",
+        createdAt: "2025-01-01T00:00:00Z",
+        modifiedAt: "2025-01-01T00:00:00Z",
+      },
+      modelDeployment("model-1", "gpt-4o"),
+    ];
+  });
+
+  it("should query the deployments of the resource group", async () => {
+    const destination = { url: "https://api.example.com" };
+
+    await listDeployments("production", destination, { status: "RUNNING" });
+
+    expect(mockState.queries).toEqual([
+      [
+        { scenarioId: undefined, status: "RUNNING" },
+        { "AI-Resource-Group": "production" },
+      ],
+    ]);
+    expect(mockState.destinations).toEqual([destination]);
+  });
+
+  it("should return status, scenario and deployed model", async () => {
+    const deployments = await listDeployments("default", undefined);
+
+    expect(deployments).toEqual([
+      {
+        id: "orchestration-1",
+        scenarioId: "orchestration",
+        status: "RUNNING",
+        configurationName: "orchestration",
+        deploymentUrl: "https://api.example.com/v2/inference/deployments/1",
+        modelName: undefined,
+        modelVersion: undefined,
+        createdAt: "2025-01-01T00:00:00Z",
+      },
+      expect.objectContaining({
+        id: "model-1",
+        scenarioId: "foundation-models",
+        modelName: "gpt-4o",
+        modelVersion: "2024-08-06",
+      }),
+    ]);
+  });
+});
+
+describe("listModels", () => {
+  it("should list the foundation model deployments", async () => {
+    mockState.queries = [];
+    mockState.resources = [
+      modelDeployment("model-1", "gpt-4o"),
+      modelDeployment("model-2", "gemini-2.0-flash", "PENDING", "001"),
+    ];
+
+    const models = await listModels("default", undefined);
+
+    expect(mockState.queries[0][0]).toEqual({
+      scenarioId: "foundation-models",
+      status: undefined,
+    });
+    expect(models).toEqual([
+      {
+        modelId: "gpt-4o",
+        modelVersion: "2024-08-06",
+        status: "RUNNING",
+        scenarioId: "foundation-models",
+        deploymentId: "model-1",
+      },
+      {
+        modelId: "gemini-2.0-flash",
+        modelVersion: "001",
+        status: "PENDING",
+        scenarioId: "foundation-models",
+        deploymentId: "model-2",
+      },
+    ]);
+  });
+});
+
+describe("createModelValidator", () => {
+  const models = [
+    {
+      modelId: "gpt-4o",
+      status: "RUNNING" as const,
+      scenarioId: "foundation-models",
+      deploymentId: "model-1",
+    },
+    {
+      modelId: "gemini-2.0-flash",
+      status: "STOPPED" as const,
+      scenarioId: "foundation-models",
+      deploymentId: "model-2",
+    },
+  ];
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should accept models with a running deployment", async () => {
+    const validate = createModelValidator("default", () =>
+      Promise.resolve(models),
+    );
+
+    await expect(validate("gpt-4o")).resolves.toBeUndefined();
+  });
+
+  it("should reject models without a running deployment", async () => {
+    const validate = createModelValidator("default", () =>
+      Promise.resolve(models),
+    );
+
+    const error: unknown = await validate("gemini-2.0-flash").catch(
+      (e: unknown) => e,
+    );
+
+    expect(error).toBeInstanceOf(SAPAIModelNotDeployedError);
+    expect(error).toMatchObject({
+      message:
+        'Model "gemini-2.0-flash" has no running deployment in resource group "default". Deployed models: gpt-4o.',
+      modelId: "gemini-2.0-flash",
+      resourceGroup: "default",
+      availableModels: ["gpt-4o"],
+      isRetryable: false,
+    });
+  });
+
+  it("should query the deployed models once", async () => {
+    const list = vi.fn(() => Promise.resolve(models));
+    const validate = createModelValidator("default", list);
+
+    await validate("gpt-4o");
+    await validate("gpt-4o");
+
+    expect(list).toHaveBeenCalledTimes(1);
+  });
+
+  it("should query the deployed models again for missing models", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const deployed = { ...models[1], status: "RUNNING" as const };
+    const list = vi
+      .fn<() => Promise<typeof models>>()
+      .mockResolvedValueOnce(models)
+      .mockResolvedValue([models[0], deployed]);
+    const validate = createModelValidator("default", list, 1000);
+
+    await validate("gpt-4o");
+    await expect(validate("gemini-2.0-flash")).rejects.toThrow(
+      SAPAIModelNotDeployedError,
+    );
+    expect(list).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+    await expect(validate("gemini-2.0-flash")).resolves.toBeUndefined();
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  it("should query at most once per interval for undeployed models", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const list = vi.fn(() => Promise.resolve(models));
+    const validate = createModelValidator("default", list, 1000);
+
+    for (let check = 0; check < 5; check++) {
+      await expect(validate("gemini-2.0-flash")).rejects.toThrow(
+        SAPAIModelNotDeployedError,
+      );
+      vi.advanceTimersByTime(400);
+    }
+
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  it("should repeat failed queries", async () => {
+    const list = vi
+      .fn<() => Promise<typeof models>>()
+      .mockRejectedValueOnce(new Error("Unauthorized"))
+      .mockResolvedValueOnce(models);
+    const validate = createModelValidator("default", list);
+
+    await expect(validate("gpt-4o")).rejects.toThrow("Unauthorized");
+    await expect(validate("gpt-4o")).resolves.toBeUndefined();
+  });
+});
+
+describe("findOrchestrationDeployment", () => {
+  beforeEach(() => {
+    mockState.queries = [];
+  });
+
+  it("should return the first running orchestration deployment", async () => {
+    mockState.resources = [
+      {
+        id: "orchestration-1",
+        configurationId: "config-1",
+        scenarioId: "orchestration",
+        status: "RUNNING",
+        createdAt: "2025-01-01T00:00:00Z",
+        modifiedAt: "2025-01-01T00:00:00Z",
+      },
+    ];
+
+    await expect(
+      findOrchestrationDeployment("production", undefined),
+    ).resolves.toBe("orchestration-1");
+    expect(mockState.queries).toEqual([
+      [
+        { scenarioId: "orchestration", status: "RUNNING" },
+        { "AI-Resource-Group": "production" },
+      ],
+    ]);
+  });
+
+  it("should reject resource groups without an orchestration deployment", async () => {
+    mockState.resources = [];
+
+    const error: unknown = await findOrchestrationDeployment(
+      "production",
+      undefined,
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SAPAIError);
+    expect(error).toMatchObject({ statusCode: 404, isRetryable: false });
+  });
+});
+
+describe("createDeploymentResolver", () => {
+  it("should resolve the deployment once", async () => {
+    const find = vi.fn(() => Promise.resolve("d-1"));
+    const resolver = createDeploymentResolver(find);
+
+    await Promise.all([resolver.resolve(), resolver.resolve()]);
+    await resolver.resolve();
+
+    expect(find).toHaveBeenCalledTimes(1);
+  });
+
+  it("should resolve the deployment again after invalidation", async () => {
+    const find = vi
+      .fn<() => Promise<string>>()
+      .mockResolvedValueOnce("d-1")
+      .mockResolvedValueOnce("d-2");
+    const resolver = createDeploymentResolver(find);
+    await resolver.resolve();
+
+    // Failures of an older deployment keep the current one
+    resolver.invalidate("d-0");
+    await expect(resolver.resolve()).resolves.toBe("d-1");
+
+    resolver.invalidate("d-1");
+    await expect(resolver.resolve()).resolves.toBe("d-2");
+    expect(find).toHaveBeenCalledTimes(2);
+  });
+
+  it("should repeat failed resolutions", async () => {
+    const find = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error("Unauthorized"))
+      .mockResolvedValueOnce("d-1");
+    const resolver = createDeploymentResolver(find);
+
+    await expect(resolver.resolve()).rejects.toThrow("Unauthorized");
+    await expect(resolver.resolve()).resolves.toBe("d-1");
+  });
+});
+
+describe("isStaleDeploymentError", () => {
+  it.each([
+    [401, true],
+    [403, true],
+    [404, true],
+    [400, false],
+    [429, false],
+  ])("should classify status %i", (status, expected) => {
+    const error = Object.assign(new Error("Request failed"), {
+      cause: { response: { status } },
+    });
+
+    expect(isStaleDeploymentError(error)).toBe(expected);
+  });
+});
@@ -0,0 +1,329 @@
+import { DeploymentApi } from "@sap-ai-sdk/ai-api";
+import type { AiDeployment, AiDeploymentStatus } from "@sap-ai-sdk/ai-api";
+import { extractModel } from "@sap-ai-sdk/ai-api/internal.js";
+import type { HttpDestinationOrFetchOptions } from "@sap-cloud-sdk/connectivity";
+import { SAPAIError, SAPAIModelNotDeployedError } from "./sap-ai-error";
+import { findResponse } from "./sap-ai-retry";
+
+/**
+ * Scenario of the foundation model deployments used by orchestration.
+ * @internal
+ */
+const FOUNDATION_MODELS_SCENARIO = "foundation-models";
+
+/**
+ * Scenario of the orchestration deployments.
+ * @internal
+ */
+const ORCHESTRATION_SCENARIO = "orchestration";
+
+/**
+ * Minimum time between two queries of the deployed models for models
+ * missing from the list (1 minute).
+ * @internal
+ */
+const MODEL_REQUERY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Status of a deployment in SAP AI Core.
+ */
+export type SAPAIDeploymentStatus = AiDeploymentStatus;
+
+/**
+ * Deployment in a SAP AI Core resource group.
+ */
+export interface SAPAIDeployment {
+  /** Deployment ID */
+  id: string;
+
+  /** Scenario of the deployment, e.g. `orchestration` or `foundation-models` */
+  scenarioId?: string;
+
+  /** Current status of the deployment */
+  status: SAPAIDeploymentStatus;
+
+  /** Name of the configuration the deployment was created from */
+  configurationName?: string;
+
+  /** Inference URL, once the deployment is running */
+  deploymentUrl?: string;
+
+  /** Name of the deployed model, for model deployments */
+  modelName?: string;
+
+  /** Version of the deployed model, for model deployments */
+  modelVersion?: string;
+
+  /** Creation time (ISO 8601) */
+  createdAt: string;
+}
+
+/**
+ * Model deployed in a SAP AI Core resource group.
+ */
+export interface SAPAIDeployedModel {
+  /** Model ID, as passed to the provider (e.g. `gpt-4o`) */
+  modelId: string;
+
+  /** Deployed model version */
+  modelVersion?: string;
+
+  /** Current status of the deployment */
+  status: SAPAIDeploymentStatus;
+
+  /** Scenario of the deployment */
+  scenarioId: string;
+
+  /** ID of the deployment serving the model */
+  deploymentId: string;
+}
+
+/**
+ * Filters for `listDeployments`.
+ */
+export interface SAPAIListDeploymentsOptions {
+  /** Only return deployments of this scenario */
+  scenarioId?: string;
+
+  /** Only return deployments with this status */
+  status?: SAPAIDeploymentStatus;
+}
+
+/**
+ * Converts a deployment of the AI Core API.
+ * @internal
+ */
+function toDeployment(deployment: AiDeployment): SAPAIDeployment {
+  const model = extractModel(deployment);
+
+  return {
+    id: deployment.id,
+    scenarioId: deployment.scenarioId,
+    status: deployment.status,
+    configurationName: deployment.configurationName,
+    deploymentUrl: deployment.deploymentUrl,
+    modelName: model?.name,
+    modelVersion: model?.version,
+    createdAt: deployment.createdAt,
+  };
+}
+
+/**
+ * Queries the deployments of a resource group from the AI Core deployments API.
+ *
+ * @param resourceGroup - SAP AI Core resource group
+ * @param destination - Optional custom destination
+ * @param options - Scenario and status filters
+ * @returns Deployments of the resource group
+ *
+ * @internal
+ */
+export async function listDeployments(
+  resourceGroup: string,
+  destination: HttpDestinationOrFetchOptions | undefined,
+  options: SAPAIListDeploymentsOptions = {},
+): Promise<SAPAIDeployment[]> {
+  const response = await DeploymentApi.deploymentQuery(
+    { scenarioId: options.scenarioId, status: options.status },
+    { "AI-Resource-Group": resourceGroup },
+  ).execute(destination);
+
+  return response.resources.map(toDeployment);
+}
+
+/**
+ * Lists the foundation models deployed in a resource group.
+ * These are the models orchestration can send requests to.
+ *
+ * @param resourceGroup - SAP AI Core resource group
+ * @param destination - Optional custom destination
+ * @returns One entry per model deployment
+ *
+ * @internal
+ */
+export async function listModels(
+  resourceGroup: string,
+  destination: HttpDestinationOrFetchOptions | undefined,
+): Promise<SAPAIDeployedModel[]> {
+  const deployments = await listDeployments(resourceGroup, destination, {
+    scenarioId: FOUNDATION_MODELS_SCENARIO,
+  });
+
+  return deployments.flatMap((deployment) =>
+    deployment.modelName
+      ? [
+          {
+            modelId: deployment.modelName,
+            modelVersion: deployment.modelVersion,
+            status: deployment.status,
+            scenarioId: deployment.scenarioId ?? FOUNDATION_MODELS_SCENARIO,
+            deploymentId: deployment.id,
+          },
+        ]
+      : [],
+  );
+}
+
+/**
+ * Creates a check that a model has a running deployment.
+ *
+ * The deployed models are queried once and kept for the next checks. A
+ * model missing from the list queries them again, at most once per
+ * `requeryIntervalMs`, so models deployed later are found. A failed query
+ * is repeated by the next check.
+ *
+ * @param resourceGroup - SAP AI Core resource group
+ * @param list - Queries the deployed models
+ * @param requeryIntervalMs - Minimum time between two queries for missing models
+ * @returns Function rejecting with `SAPAIModelNotDeployedError` for models
+ *   without a running deployment
+ *
+ * @internal
+ */
+export function createModelValidator(
+  resourceGroup: string,
+  list: () => Promise<SAPAIDeployedModel[]>,
+  requeryIntervalMs = MODEL_REQUERY_INTERVAL_MS,
+): (modelId: string) => Promise<void> {
+  let models: Promise<SAPAIDeployedModel[]> | undefined;
+  let queriedAt = 0;
+
+  const query = () => {
+    const result = list().catch((error: unknown) => {
+      if (models === result) models = undefined;
+      throw error;
+    });
+    models = result;
+    queriedAt = Date.now();
+    return result;
+  };
+
+  const runningModels = async (result: Promise<SAPAIDeployedModel[]>) =>
+    (await result).filter((model) => model.status === "RUNNING");
+
+  return async (modelId) => {
+    let running = await runningModels(models ?? query());
+    if (running.some((model) => model.modelId === modelId)) {
+      return;
+    }
+
+    // The list may predate the deployment of the model
+    if (Date.now() - queriedAt >= requeryIntervalMs) {
+      running = await runningModels(query());
+      if (running.some((model) => model.modelId === modelId)) {
+        return;
+      }
+    }
+
+    const availableModels = [
+      ...new Set(running.map((model) => model.modelId)),
+    ].sort();
+    throw new SAPAIModelNotDeployedError(
+      `Model "${modelId}" has no running deployment in resource group "${resourceGroup}". ` +
+        (availableModels.length > 0
+          ? `Deployed models: ${availableModels.join(", ")}.`
+          : "No model has a running deployment there."),
+      { modelId, resourceGroup, availableModels },
+    );
+  };
+}
+
+/**
+ * Finds the running orchestration deployment of a resource group.
+ * Like the SAP AI SDK, the first running deployment is used.
+ *
+ * @param resourceGroup - SAP AI Core resource group
+ * @param destination - Optional custom destination
+ * @returns ID of the orchestration deployment
+ *
+ * @throws {SAPAIError} When the resource group has no running orchestration deployment
+ *
+ * @internal
+ */
+export async function findOrchestrationDeployment(
+  resourceGroup: string,
+  destination: HttpDestinationOrFetchOptions | undefined,
+): Promise<string> {
+  const deployments = await listDeployments(resourceGroup, destination, {
+    scenarioId: ORCHESTRATION_SCENARIO,
+    status: "RUNNING",
+  });
+
+  if (deployments.length === 0) {
+    throw new SAPAIError(
+      `No running orchestration deployment in resource group "${resourceGroup}"`,
+      { code: 404, isRetryable: false },
+    );
+  }
+  return deployments[0].id;
+}
+
+/**
+ * Orchestration deployment of a provider, resolved once for all calls.
+ * @internal
+ */
+export interface SAPAIDeploymentResolver {
+  /** Returns the ID of the orchestration deployment */
+  resolve(): Promise<string>;
+
+  /**
+   * Drops a deployment that failed with {@link isStaleDeploymentError}, so
+   * that the next call resolves the deployment again.
+   */
+  invalidate(deploymentId: string): void;
+}
+
+/**
+ * Creates a resolver that finds the orchestration deployment once and keeps
+ * it until a request to it fails with an authentication or not-found error.
+ *
+ * Without it, the SAP AI SDK resolves the deployment per client and keeps
+ * it for five minutes, also after such errors.
+ *
+ * @param find - Queries the orchestration deployment
+ * @returns Resolver shared by the models of a provider
+ *
+ * @internal
+ */
+export function createDeploymentResolver(
+  find: () => Promise<string>,
+): SAPAIDeploymentResolver {
+  let deployment: Promise<string> | undefined;
+  let deploymentId: string | undefined;
+
+  return {
+    resolve: () => {
+      deployment ??= find().then(
+        (id) => {
+          deploymentId = id;
+          return id;
+        },
+        (error: unknown) => {
+          // A failed query is repeated by the next call
+          deployment = undefined;
+          throw error;
+        },
+      );
+      return deployment;
+    },
+    invalidate: (id) => {
+      if (id !== deploymentId) return;
+      deployment = undefined;
+      deploymentId = undefined;
+    },
+  };
+}
+
+/**
+ * Checks whether a request failed because its deployment is gone (404) or
+ * the credentials no longer grant access to it (401, 403).
+ *
+ * @param error - Error thrown by the SAP AI SDK
+ * @returns Whether the deployment should be resolved again
+ *
+ * @internal
+ */
+export function isStaleDeploymentError(error: unknown): boolean {
+  const status = findResponse(error)?.status;
+  return status === 401 || status === 403 || status === 404;
+}
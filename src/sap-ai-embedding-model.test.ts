@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TooManyEmbeddingValuesForCallError } from "@ai-sdk/provider";
+import { SAPAIEmbeddingModel } from "./sap-ai-embedding-model";
+import type { SAPAIEmbeddingSettings } from "./sap-ai-embedding-settings";
+
+const { embedMock, constructorMock } = vi.hoisted(() => ({
+  embedMock: vi.fn(),
+  constructorMock: vi.fn(),
+}));
+
+// Mock the OrchestrationEmbeddingClient
+vi.mock("@sap-ai-sdk/orchestration", () => {
+  class MockOrchestrationEmbeddingClient {
+    constructor(...args: unknown[]) {
+      constructorMock(...args);
+    }
+
+    embed = embedMock;
+  }
+
+  return {
+    OrchestrationEmbeddingClient: MockOrchestrationEmbeddingClient,
+  };
+});
+
+describe("SAPAIEmbeddingModel", () => {
+  const createModel = (
+    modelId = "text-embedding-3-small",
+    settings: SAPAIEmbeddingSettings = {},
+  ) => {
+    return new SAPAIEmbeddingModel(modelId, settings, {
+      provider: "sap-ai",
+      deploymentConfig: { resourceGroup: "default" },
+    });
+  };
+
+  beforeEach(() => {
+    constructorMock.mockClear();
+    embedMock.mockReset();
+    embedMock.mockResolvedValue({
+      getEmbeddings: () => [
+        { object: "embedding", embedding: [0.3, 0.4], index: 1 },
+        { object: "embedding", embedding: [0.1, 0.2], index: 0 },
+      ],
+      getTokenUsage: () => ({ prompt_tokens: 8, total_tokens: 8 }),
+      getRequestId: () => "req-123",
+      _data: {},
+    });
+  });
+
+  describe("model properties", () => {
+    it("should have correct specification version", () => {
+      const model = createModel();
+      expect(model.specificationVersion).toBe("v2");
+    });
+
+    it("should have correct model ID and provider", () => {
+      const model = createModel("text-embedding-3-large");
+      expect(model.modelId).toBe("text-embedding-3-large");
+      expect(model.provider).toBe("sap-ai");
+    });
+
+    it("should use default batching limits", () => {
+      const model = createModel();
+      expect(model.maxEmbeddingsPerCall).toBe(2048);
+      expect(model.supportsParallelCalls).toBe(true);
+    });
+
+    it("should respect configured batching limits", () => {
+      const model = createModel("text-embedding-3-small", {
+        maxEmbeddingsPerCall: 16,
+        supportsParallelCalls: false,
+      });
+      expect(model.maxEmbeddingsPerCall).toBe(16);
+      expect(model.supportsParallelCalls).toBe(false);
+    });
+  });
+
+  describe("doEmbed", () => {
+    it("should return embeddings in input order with usage", async () => {
+      const model = createModel();
+
+      const result = await model.doEmbed({ values: ["first", "second"] });
+
+      expect(result.embeddings).toEqual([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+      expect(result.usage).toEqual({ tokens: 8 });
+      expect(result.providerMetadata).toEqual({
+        "sap-ai": { requestId: "req-123" },
+      });
+      expect(embedMock).toHaveBeenCalledWith(
+        { input: ["first", "second"], type: undefined },
+        undefined,
+      );
+    });
+
+    it("should pass dimensions, type and masking to the orchestration config", async () => {
+      const masking = {
+        masking_providers: [
+          {
+            type: "sap_data_privacy_integration" as const,
+            method: "anonymization" as const,
+            entities: [{ type: "profile-email" as const }],
+          },
+        ],
+      };
+      const model = createModel("text-embedding-3-small", {
+        modelVersion: "1",
+        modelParams: { dimensions: 256 },
+        type: "query",
+        masking,
+      });
+
+      await model.doEmbed({ values: ["hello"] });
+
+      expect(constructorMock).toHaveBeenCalledWith(
+        {
+          embeddings: {
+            model: {
+              name: "text-embedding-3-small",
+              version: "1",
+              params: {
+                encoding_format: "float",
+                dimensions: 256,
+                normalize: undefined,
+              },
+            },
+          },
+          masking,
+        },
+        { resourceGroup: "default" },
+        undefined,
+      );
+      expect(embedMock).toHaveBeenCalledWith(
+        { input: ["hello"], type: "query" },
+        undefined,
+      );
+    });
+
+    it("should forward the abort signal", async () => {
+      const model = createModel();
+      const abortController = new AbortController();
+
+      await model.doEmbed({
+        values: ["hello"],
+        abortSignal: abortController.signal,
+      });
+
+      expect(embedMock).toHaveBeenCalledWith(expect.anything(), {
+        signal: abortController.signal,
+      });
+    });
+
+    it("should throw when too many values are passed", async () => {
+      const model = createModel("text-embedding-3-small", {
+        maxEmbeddingsPerCall: 1,
+      });
+
+      await expect(model.doEmbed({ values: ["a", "b"] })).rejects.toThrow(
+        TooManyEmbeddingValuesForCallError,
+      );
+      expect(embedMock).not.toHaveBeenCalled();
+    });
+  });
+});
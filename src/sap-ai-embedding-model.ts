@@ -0,0 +1,225 @@
+import {
+  EmbeddingModelV2,
+  EmbeddingModelV2Embedding,
+  SharedV2ProviderMetadata,
+  TooManyEmbeddingValuesForCallError,
+} from "@ai-sdk/provider";
+import {
+  OrchestrationEmbeddingClient,
+  EmbeddingModuleConfig,
+} from "@sap-ai-sdk/orchestration";
+import type { HttpDestinationOrFetchOptions } from "@sap-cloud-sdk/connectivity";
+import type {
+  ResourceGroupConfig,
+  DeploymentIdConfig,
+} from "@sap-ai-sdk/ai-api/internal.js";
+import {
+  SAPAIEmbeddingModelId,
+  SAPAIEmbeddingSettings,
+} from "./sap-ai-embedding-settings";
+import { SAPAIError, normalizeError } from "./sap-ai-error";
+
+/**
+ * Default batch size for a single embedding call.
+ * Matches the input array limit of the Azure OpenAI embedding models.
+ * @internal
+ */
+const DEFAULT_MAX_EMBEDDINGS_PER_CALL = 2048;
+
+/**
+ * Internal configuration for the SAP AI Embedding Model.
+ * @internal
+ */
+interface SAPAIEmbeddingConfig {
+  /** Provider identifier */
+  provider: string;
+  /** Deployment configuration for SAP AI SDK */
+  deploymentConfig: ResourceGroupConfig | DeploymentIdConfig;
+  /** Optional custom destination */
+  destination?: HttpDestinationOrFetchOptions;
+}
+
+/**
+ * SAP AI Embedding Model implementation.
+ *
+ * This class implements the Vercel AI SDK's `EmbeddingModelV2` interface,
+ * generating embeddings through the SAP AI Core Orchestration embedding endpoint
+ * (`/v2/embeddings`) using `OrchestrationEmbeddingClient` from `@sap-ai-sdk/orchestration`.
+ *
+ * **Features:**
+ * - Batched embedding generation (`embed` and `embedMany`)
+ * - Configurable output dimensions
+ * - Data masking (SAP DPI) of the input values
+ * - Token usage reporting
+ *
+ * @example
+ * ```typescript
+ * const provider = createSAPAIProvider();
+ *
+ * const { embeddings } = await embedMany({
+ *   model: provider.textEmbeddingModel('text-embedding-3-small'),
+ *   values: ['sunny day at the beach', 'rainy afternoon in the city']
+ * });
+ * ```
+ *
+ * @implements {EmbeddingModelV2<string>}
+ */
+export class SAPAIEmbeddingModel implements EmbeddingModelV2<string> {
+  /** AI SDK specification version */
+  readonly specificationVersion = "v2";
+  /** The model identifier (e.g., 'text-embedding-3-small') */
+  readonly modelId: SAPAIEmbeddingModelId;
+
+  /** Internal configuration */
+  private readonly config: SAPAIEmbeddingConfig;
+  /** Model-specific settings */
+  private readonly settings: SAPAIEmbeddingSettings;
+
+  /**
+   * Creates a new SAP AI Embedding Model instance.
+   *
+   * @param modelId - The embedding model identifier
+   * @param settings - Model-specific configuration settings
+   * @param config - Internal configuration (deployment config, destination, etc.)
+   *
+   * @internal This constructor is not meant to be called directly.
+   * Use `provider.textEmbeddingModel()` instead.
+   */
+  constructor(
+    modelId: SAPAIEmbeddingModelId,
+    settings: SAPAIEmbeddingSettings,
+    config: SAPAIEmbeddingConfig,
+  ) {
+    this.settings = settings;
+    this.config = config;
+    this.modelId = modelId;
+  }
+
+  /**
+   * Gets the provider identifier.
+   *
+   * @returns The provider name ('sap-ai')
+   */
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  /**
+   * Maximum number of values that are embedded in a single call.
+   */
+  get maxEmbeddingsPerCall(): number {
+    return (
+      this.settings.maxEmbeddingsPerCall ?? DEFAULT_MAX_EMBEDDINGS_PER_CALL
+    );
+  }
+
+  /**
+   * Whether the model can handle multiple embedding calls in parallel.
+   */
+  get supportsParallelCalls(): boolean {
+    return this.settings.supportsParallelCalls ?? true;
+  }
+
+  /**
+   * Builds the embedding module config for SAP AI SDK.
+   *
+   * @returns Embedding module configuration
+   *
+   * @internal
+   */
+  private buildEmbeddingConfig(): EmbeddingModuleConfig {
+    return {
+      embeddings: {
+        model: {
+          name: this.modelId,
+          version: this.settings.modelVersion ?? "latest",
+          params: {
+            encoding_format: "float",
+            dimensions: this.settings.modelParams?.dimensions,
+            normalize: this.settings.modelParams?.normalize,
+          },
+        },
+      },
+      // Include masking module if provided
+      ...(this.settings.masking ? { masking: this.settings.masking } : {}),
+    };
+  }
+
+  /**
+   * Generates embeddings for the given values.
+   *
+   * This method implements the `EmbeddingModelV2.doEmbed` interface,
+   * sending a single request to the SAP AI Core embedding endpoint.
+   *
+   * @param options - Values to embed and call options
+   * @returns Promise resolving to the embeddings (in input order) and token usage
+   *
+   * @throws {TooManyEmbeddingValuesForCallError} When more values than
+   * `maxEmbeddingsPerCall` are passed
+   */
+  async doEmbed(
+    options: Parameters<EmbeddingModelV2<string>["doEmbed"]>[0],
+  ): Promise<{
+    embeddings: EmbeddingModelV2Embedding[];
+    usage?: { tokens: number };
+    providerMetadata?: SharedV2ProviderMetadata;
+    response?: { body?: unknown };
+  }> {
+    const { values } = options;
+
+    if (values.length > this.maxEmbeddingsPerCall) {
+      throw new TooManyEmbeddingValuesForCallError({
+        provider: this.provider,
+        modelId: this.modelId,
+        maxEmbeddingsPerCall: this.maxEmbeddingsPerCall,
+        values,
+      });
+    }
+
+    const client = new OrchestrationEmbeddingClient(
+      this.buildEmbeddingConfig(),
+      this.config.deploymentConfig,
+      this.config.destination,
+    );
+
+    const response = await client
+      .embed(
+        {
+          input: values,
+          type: this.settings.type,
+        },
+        options.abortSignal ? { signal: options.abortSignal } : undefined,
+      )
+      .catch((error: unknown) => {
+        throw normalizeError(error);
+      });
+
+    // Restore input order, the service reports the position via `index`
+    const embeddings = [...response.getEmbeddings()]
+      .sort((a, b) => a.index - b.index)
+      .map((data) => {
+        if (!Array.isArray(data.embedding)) {
+          throw new SAPAIError(
+            `Unexpected embedding encoding for input ${String(data.index)}`,
+            { requestId: response.getRequestId() },
+          );
+        }
+        return data.embedding;
+      });
+
+    const tokenUsage = response.getTokenUsage();
+
+    return {
+      embeddings,
+      usage: { tokens: tokenUsage.prompt_tokens },
+      providerMetadata: {
+        "sap-ai": {
+          requestId: response.getRequestId(),
+        },
+      },
+      response: {
+        body: response._data,
+      },
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import type { MaskingModule, EmbeddingModel } from "@sap-ai-sdk/orchestration";
+
+/**
+ * Settings for configuring SAP AI Core embedding model behavior.
+ */
+export interface SAPAIEmbeddingSettings {
+  /**
+   * Specific version of the model to use.
+   * If not provided, the latest version will be used.
+   */
+  modelVersion?: string;
+
+  /**
+   * Embedding generation parameters.
+   */
+  modelParams?: {
+    /**
+     * Number of dimensions the resulting embeddings should have.
+     * Only supported by models with configurable output size
+     * (e.g. text-embedding-3-small, text-embedding-3-large).
+     */
+    dimensions?: number;
+
+    /**
+     * Whether the returned embeddings should be normalized.
+     * Only honored by models that support it.
+     */
+    normalize?: boolean;
+  };
+
+  /**
+   * Represents the task for which the embeddings are generated.
+   * Some models produce different vectors for queries and documents.
+   *
+   * @default 'text'
+   */
+  type?: "text" | "document" | "query";
+
+  /**
+   * Maximum number of values embedded in a single orchestration call.
+   * `embedMany` from the AI SDK splits larger inputs into batches of this size.
+   *
+   * @default 2048
+   */
+  maxEmbeddingsPerCall?: number;
+
+  /**
+   * Whether the AI SDK may issue multiple embedding calls in parallel.
+   *
+   * @default true
+   */
+  supportsParallelCalls?: boolean;
+
+  /**
+   * Masking configuration for SAP AI Core orchestration.
+   * Sensitive information in the input values is anonymized or
+   * pseudonymized by SAP Data Privacy Integration (DPI) before embedding.
+   *
+   * @example
+   * ```typescript
+   * import { buildDpiMaskingProvider } from '@sap-ai-sdk/orchestration';
+   *
+   * const model = provider.textEmbeddingModel('text-embedding-3-small', {
+   *   masking: {
+   *     masking_providers: [
+   *       buildDpiMaskingProvider({
+   *         method: 'anonymization',
+   *         entities: ['profile-email', 'profile-person']
+   *       })
+   *     ]
+   *   }
+   * });
+   * ```
+   */
+  masking?: MaskingModule;
+}
+
+/**
+ * Supported embedding model IDs in SAP AI Core.
+ *
+ * **Azure OpenAI Models:**
+ * - text-embedding-3-small, text-embedding-3-large
+ *
+ * **Google Vertex AI Models:**
+ * - gemini-embedding
+ *
+ * **AWS Bedrock Models:**
+ * - amazon--titan-embed-text
+ *
+ * **AI Core Open Source Models:**
+ * - nvidia--llama-3.2-nv-embedqa-1b
+ */
+export type SAPAIEmbeddingModelId = EmbeddingModel;
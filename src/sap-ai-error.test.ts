@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import { APICallError } from "@ai-sdk/provider";
+import {
+  SAPAIContentFilterError,
+  SAPAIError,
+  normalizeError,
+} from "./sap-ai-error";
+
+// Shape of the errors thrown by the SAP AI SDK for failed HTTP requests
+const httpError = (
+  status: number,
+  data: unknown,
+  headers: Record<string, string> = {},
+) =>
+  Object.assign(
+    new Error(`Request failed with status code ${String(status)}`),
+    {
+      cause: {
+        config: {
+          url: "https://api.example.com/v2/inference/deployments/d1/completion",
+          data: '{"config":{}}',
+        },
+        response: { status, headers, data },
+      },
+    },
+  );
+
+describe("SAPAIError", () => {
+  it("should be an APICallError", () => {
+    const error = new SAPAIError("Throttled", { code: 429 });
+
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(error).toBeInstanceOf(APICallError);
+    expect(error.name).toBe("SAPAIError");
+    expect(error.statusCode).toBe(429);
+    expect(error.isRetryable).toBe(true);
+  });
+
+  it("should keep subclasses APICallErrors", () => {
+    const error = new SAPAIContentFilterError("Blocked", {
+      direction: "input",
+      filterResults: [],
+      code: 400,
+    });
+
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(error.isRetryable).toBe(false);
+  });
+
+  it("should read request and response details from the cause", () => {
+    const cause = httpError(
+      503,
+      { message: "Unavailable" },
+      { "x-request-id": "request-1", "Retry-After": "5" },
+    );
+
+    const error = new SAPAIError("Unavailable", { cause });
+
+    expect(error).toMatchObject({
+      url: "https://api.example.com/v2/inference/deployments/d1/completion",
+      requestBodyValues: '{"config":{}}',
+      statusCode: 503,
+      code: 503,
+      responseHeaders: { "x-request-id": "request-1", "retry-after": "5" },
+      responseBody: '{"message":"Unavailable"}',
+      requestId: "request-1",
+      isRetryable: true,
+      cause,
+    });
+  });
+
+  describe("fromOrchestrationError", () => {
+    it("should convert a single error", () => {
+      const error = SAPAIError.fromOrchestrationError({
+        error: {
+          request_id: "request-1",
+          code: 400,
+          message: "Invalid model",
+          location: "LLM Module",
+        },
+      });
+
+      expect(error).toMatchObject({
+        message: "Invalid model",
+        code: 400,
+        statusCode: 400,
+        location: "LLM Module",
+        requestId: "request-1",
+        isRetryable: false,
+      });
+    });
+
+    it("should convert the first error of an error list", () => {
+      const error = SAPAIError.fromOrchestrationError({
+        error: [
+          {
+            request_id: "request-1",
+            code: 500,
+            message: "Model failed",
+            location: "LLM Module",
+          },
+        ],
+      });
+
+      expect(error).toMatchObject({
+        message: "Model failed",
+        code: 500,
+        isRetryable: true,
+      });
+    });
+  });
+
+  describe("fromError", () => {
+    it("should convert orchestration error responses", () => {
+      const body = {
+        error: {
+          request_id: "request-1",
+          code: 400,
+          message: "Prompt too long",
+          location: "Request Body",
+        },
+      };
+      const cause = httpError(400, body);
+
+      const error = SAPAIError.fromError(cause);
+
+      expect(error).toMatchObject({
+        message: "Prompt too long",
+        code: 400,
+        statusCode: 400,
+        location: "Request Body",
+        requestId: "request-1",
+        responseBody: JSON.stringify(body),
+        isRetryable: false,
+        cause,
+      });
+    });
+
+    it("should classify errors without orchestration error body", () => {
+      const error = SAPAIError.fromError(httpError(429, "Too Many Requests"));
+
+      expect(error).toMatchObject({
+        message: "Request failed with status code 429",
+        statusCode: 429,
+        responseBody: "Too Many Requests",
+        isRetryable: true,
+      });
+    });
+
+    it("should mark network failures as retryable", () => {
+      const cause = Object.assign(new Error("socket hang up"), {
+        code: "ECONNRESET",
+      });
+
+      const error = SAPAIError.fromError(cause);
+
+      expect(error.statusCode).toBeUndefined();
+      expect(error.isRetryable).toBe(true);
+    });
+
+    it("should return SAPAIErrors unchanged", () => {
+      const error = new SAPAIError("Failed");
+
+      expect(SAPAIError.fromError(error)).toBe(error);
+    });
+  });
+});
+
+describe("normalizeError", () => {
+  it("should keep abort errors", () => {
+    const abort = new DOMException("Aborted", "AbortError");
+
+    expect(normalizeError(abort)).toBe(abort);
+  });
+
+  it("should convert other errors", () => {
+    expect(normalizeError(httpError(500, ""))).toBeInstanceOf(SAPAIError);
+  });
+});
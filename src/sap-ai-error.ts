@@ -1,11 +1,136 @@
+import { APICallError, InvalidArgumentError } from "@ai-sdk/provider";
+import { isAbortError } from "@ai-sdk/provider-utils";
 import type { OrchestrationErrorResponse } from "@sap-ai-sdk/orchestration";
+import type { SAPAIContentFilterResult } from "./sap-ai-content-filter";
+import { findResponse, isRetryableError } from "./sap-ai-retry";
+
+/**
+ * Checks whether an HTTP status code marks a temporary failure.
+ * @internal
+ */
+function isRetryableStatus(code: number | undefined): boolean {
+  return code === 408 || code === 429 || (code !== undefined && code >= 500);
+}
+
+/**
+ * Checks that a value is a plain object.
+ * @internal
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Finds the request of an error thrown by the SAP AI SDK.
+ * HTTP errors are wrapped, with the request config at `cause.config`.
+ *
+ * @internal
+ */
+function findRequestConfig(
+  error: unknown,
+): Record<string, unknown> | undefined {
+  let current: unknown = error;
+
+  for (let depth = 0; depth < 5 && isRecord(current); depth++) {
+    if (isRecord(current.config)) {
+      return current.config;
+    }
+    current = current.cause;
+  }
+
+  return undefined;
+}
+
+/**
+ * Converts response headers to a plain record with lower-case names.
+ * @internal
+ */
+function toHeaderRecord(headers: unknown): Record<string, string> | undefined {
+  if (!isRecord(headers)) return undefined;
+
+  // Axios headers serialize to a plain object
+  const values: unknown =
+    typeof headers.toJSON === "function"
+      ? (headers.toJSON as () => unknown)()
+      : headers;
+  if (!isRecord(values)) return undefined;
+
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (typeof value === "string" || typeof value === "number") {
+      result[name.toLowerCase()] = String(value);
+    } else if (Array.isArray(value)) {
+      result[name.toLowerCase()] = value.join(", ");
+    }
+  }
+  return result;
+}
+
+/**
+ * Serializes a response body for `responseBody`.
+ * @internal
+ */
+function toResponseBody(data: unknown): string | undefined {
+  if (data === undefined || data === null) return undefined;
+  if (typeof data === "string") return data;
+
+  try {
+    return JSON.stringify(data);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Options of {@link SAPAIError}.
+ *
+ * Request and response details that are not given are read from the HTTP
+ * error in `cause`.
+ */
+export interface SAPAIErrorOptions {
+  /** HTTP status code or custom error code */
+  code?: number;
+
+  /** Where the error occurred (e.g., module name) */
+  location?: string;
+
+  /** Unique identifier for tracking the request */
+  requestId?: string;
+
+  /** Additional error context or debugging information */
+  details?: string;
+
+  /** Original cause of the error */
+  cause?: unknown;
+
+  /** Whether repeating the request may succeed, derived from the status by default */
+  isRetryable?: boolean;
+
+  /** URL of the failed request */
+  url?: string;
+
+  /** Body of the failed request */
+  requestBodyValues?: unknown;
+
+  /** HTTP status code of the response */
+  statusCode?: number;
+
+  /** Headers of the response */
+  responseHeaders?: Record<string, string>;
+
+  /** Raw body of the response */
+  responseBody?: string;
+}
 
 /**
  * Custom error class for SAP AI Core errors.
  * Provides structured access to error details returned by the API.
  *
- * The SAP AI SDK handles most error responses internally, but this class
- * can be used to wrap and provide additional context for errors.
+ * Extends the AI SDK's `APICallError`, so `APICallError.isInstance` holds and
+ * the AI SDK's `maxRetries` repeats calls that failed with `isRetryable` set.
+ * Failed calls of the chat and embedding models reject with this error (or a
+ * subclass), carrying the status code, response headers and body of the
+ * SAP AI Core response.
  *
  * @example
  * ```typescript
@@ -14,13 +139,15 @@ import type { OrchestrationErrorResponse } from "@sap-ai-sdk/orchestration";
  * } catch (error) {
  *   if (error instanceof SAPAIError) {
  *     console.error('Error Code:', error.code);
+ *     console.error('Status:', error.statusCode);
  *     console.error('Request ID:', error.requestId);
  *     console.error('Location:', error.location);
+ *     console.error('Retryable:', error.isRetryable);
  *   }
  * }
  * ```
  */
-export class SAPAIError extends Error {
+export class SAPAIError extends APICallError {
   /** HTTP status code or custom error code */
   public readonly code?: number;
 
@@ -33,36 +160,45 @@ export class SAPAIError extends Error {
   /** Additional error context or debugging information */
   public readonly details?: string;
 
-  /** Original cause of the error */
-  public readonly cause?: unknown;
+  constructor(message: string, options: SAPAIErrorOptions = {}) {
+    const response = findResponse(options.cause);
+    const request = findRequestConfig(options.cause);
+    const status = response?.status;
+    const statusCode =
+      options.statusCode ??
+      (typeof status === "number" ? status : undefined) ??
+      options.code;
+    const responseHeaders =
+      options.responseHeaders ?? toHeaderRecord(response?.headers);
 
-  constructor(
-    message: string,
-    options?: {
-      code?: number;
-      location?: string;
-      requestId?: string;
-      details?: string;
-      cause?: unknown;
-    },
-  ) {
-    super(message);
+    super({
+      message,
+      url: options.url ?? (typeof request?.url === "string" ? request.url : ""),
+      requestBodyValues: options.requestBodyValues ?? request?.data,
+      statusCode,
+      responseHeaders,
+      responseBody: options.responseBody ?? toResponseBody(response?.data),
+      cause: options.cause,
+      isRetryable:
+        options.isRetryable ?? isRetryableStatus(statusCode ?? options.code),
+    });
     this.name = "SAPAIError";
-    this.code = options?.code;
-    this.location = options?.location;
-    this.requestId = options?.requestId;
-    this.details = options?.details;
-    this.cause = options?.cause;
+    this.code = options.code ?? statusCode;
+    this.location = options.location;
+    this.requestId = options.requestId ?? responseHeaders?.["x-request-id"];
+    this.details = options.details;
   }
 
   /**
    * Creates a SAPAIError from an OrchestrationErrorResponse.
    *
    * @param errorResponse - The error response from SAP AI SDK
+   * @param options - Request and response details, e.g. the HTTP error as `cause`
    * @returns A new SAPAIError instance
    */
   static fromOrchestrationError(
     errorResponse: OrchestrationErrorResponse,
+    options?: SAPAIErrorOptions,
   ): SAPAIError {
     const error = errorResponse.error;
 
@@ -74,6 +210,7 @@ export class SAPAIError extends Error {
         // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
         firstError?.message ?? "Unknown orchestration error",
         {
+          ...options,
           // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
           code: firstError?.code,
           // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
@@ -86,6 +223,7 @@ export class SAPAIError extends Error {
       // Single Error object
       // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
       return new SAPAIError(error.message ?? "Unknown orchestration error", {
+        ...options,
         code: error.code,
         location: error.location,
         requestId: error.request_id,
@@ -96,6 +234,10 @@ export class SAPAIError extends Error {
   /**
    * Creates a SAPAIError from a generic error.
    *
+   * HTTP errors of the SAP AI SDK are converted via
+   * {@link SAPAIError.fromOrchestrationError} when the response contains an
+   * orchestration error.
+   *
    * @param error - The original error
    * @param context - Optional context about where the error occurred
    * @returns A new SAPAIError instance
@@ -105,6 +247,14 @@ export class SAPAIError extends Error {
       return error;
     }
 
+    const data = findResponse(error)?.data;
+    if (isRecord(data) && data.error !== undefined) {
+      return SAPAIError.fromOrchestrationError(
+        data as OrchestrationErrorResponse,
+        { cause: error, isRetryable: isRetryableError(error) },
+      );
+    }
+
     let message: string;
     if (error instanceof Error) {
       message = error.message;
@@ -129,9 +279,142 @@ export class SAPAIError extends Error {
 
     return new SAPAIError(context ? `${context}: ${message}` : message, {
       cause: error,
+      isRetryable: isRetryableError(error),
     });
   }
 }
 
+/**
+ * Converts a failure of a model call into a {@link SAPAIError}.
+ * Aborted calls keep their `AbortError`.
+ *
+ * @param error - Error thrown by the SAP AI SDK
+ * @returns The error to reject the call with
+ *
+ * @internal
+ */
+export function normalizeError(error: unknown): unknown {
+  return isAbortError(error) ? error : SAPAIError.fromError(error);
+}
+
+/**
+ * Error thrown when SAP AI Core content filtering blocks a request.
+ *
+ * Raised when Azure Content Safety or Llama Guard filters configured via
+ * `SAPAISettings.filtering` reject the prompt (input) or the model response (output).
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await generateText({ model, prompt });
+ * } catch (error) {
+ *   if (error instanceof SAPAIContentFilterError) {
+ *     console.error('Blocked', error.direction, 'content');
+ *     for (const result of error.filterResults) {
+ *       console.error(result.filter, result.triggeredCategories, result.categories);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export class SAPAIContentFilterError extends SAPAIError {
+  /** Whether the prompt (`input`) or the model response (`output`) was blocked */
+  public readonly direction: "input" | "output";
+
+  /** Results of each filter, including the triggered categories */
+  public readonly filterResults: SAPAIContentFilterResult[];
+
+  constructor(
+    message: string,
+    options: {
+      direction: "input" | "output";
+      filterResults: SAPAIContentFilterResult[];
+      code?: number;
+      location?: string;
+      requestId?: string;
+      cause?: unknown;
+    },
+  ) {
+    super(message, options);
+    this.name = "SAPAIContentFilterError";
+    this.direction = options.direction;
+    this.filterResults = options.filterResults;
+  }
+}
+
+/**
+ * Error thrown when a prompt template cannot be rendered because
+ * placeholders have neither a value nor a default.
+ *
+ * Raised before the request is sent to SAP AI Core. As a local validation
+ * failure, it is an `InvalidArgumentError` of the AI SDK rather than a
+ * (retryable) `APICallError`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await generateText({ model, prompt });
+ * } catch (error) {
+ *   if (error instanceof SAPAITemplateError) {
+ *     console.error('Missing placeholders:', error.missingPlaceholders);
+ *   }
+ * }
+ * ```
+ */
+export class SAPAITemplateError extends InvalidArgumentError {
+  /** Placeholders without a value or default */
+  public readonly missingPlaceholders: string[];
+
+  constructor(message: string, options: { missingPlaceholders: string[] }) {
+    super({ argument: "placeholderValues", message });
+    this.name = "SAPAITemplateError";
+    this.missingPlaceholders = options.missingPlaceholders;
+  }
+}
+
+/**
+ * Error thrown when a model has no running deployment in the resource group
+ * of the provider.
+ *
+ * Raised before the request is sent when `SAPAIProviderSettings.validateModels`
+ * is enabled.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await generateText({ model, prompt });
+ * } catch (error) {
+ *   if (error instanceof SAPAIModelNotDeployedError) {
+ *     console.error('Deployed models:', error.availableModels);
+ *   }
+ * }
+ * ```
+ */
+export class SAPAIModelNotDeployedError extends SAPAIError {
+  /** Requested model ID */
+  public readonly modelId: string;
+
+  /** Resource group that was searched */
+  public readonly resourceGroup: string;
+
+  /** Models with a running deployment in the resource group */
+  public readonly availableModels: string[];
+
+  constructor(
+    message: string,
+    options: {
+      modelId: string;
+      resourceGroup: string;
+      availableModels: string[];
+    },
+  ) {
+    super(message, { code: 404 });
+    this.name = "SAPAIModelNotDeployedError";
+    this.modelId = options.modelId;
+    this.resourceGroup = options.resourceGroup;
+    this.availableModels = options.availableModels;
+  }
+}
+
 // Re-export the error response type from SAP AI SDK
 export type { OrchestrationErrorResponse } from "@sap-ai-sdk/orchestration";
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+import type { LanguageModelV2Prompt } from "@ai-sdk/provider";
+import { inlineRemoteImages, sniffImageMediaType } from "./sap-ai-images";
+import { SAPAIError } from "./sap-ai-error";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const imagePrompt = (...urls: string[]): LanguageModelV2Prompt => [
+  { role: "system", content: "You describe images." },
+  {
+    role: "user",
+    content: [
+      { type: "text", text: "Describe" },
+      ...urls.map((url) => ({
+        type: "file" as const,
+        mediaType: "image/*",
+        data: new URL(url),
+      })),
+    ],
+  },
+];
+
+const respondWith = (body: Uint8Array, init?: ResponseInit) =>
+  vi.fn(() => Promise.resolve(new Response(body, init)));
+
+describe("sniffImageMediaType", () => {
+  it("should detect image formats from their leading bytes", () => {
+    const bytes = (text: string) => new TextEncoder().encode(text);
+
+    expect(sniffImageMediaType(PNG)).toBe("image/png");
+    expect(sniffImageMediaType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+      "image/jpeg",
+    );
+    expect(sniffImageMediaType(bytes("GIF89a"))).toBe("image/gif");
+    expect(sniffImageMediaType(bytes("RIFF\0\0\0\0WEBPVP8 "))).toBe(
+      "image/webp",
+    );
+    expect(sniffImageMediaType(bytes("<html>"))).toBeUndefined();
+  });
+});
+
+describe("inlineRemoteImages", () => {
+  it("should download images the model cannot fetch", async () => {
+    const fetch = respondWith(PNG, {
+      headers: { "content-type": "application/octet-stream" },
+    });
+
+    const prompt = await inlineRemoteImages(
+      imagePrompt("https://example.com/chart", "https://example.com/chart"),
+      { settings: { fetch }, canFetch: () => false },
+    );
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(prompt[1].content).toEqual([
+      { type: "text", text: "Describe" },
+      { type: "file", mediaType: "image/png", data: PNG },
+      { type: "file", mediaType: "image/png", data: PNG },
+    ]);
+  });
+
+  it("should keep URLs the model can fetch unless always is set", async () => {
+    const fetch = respondWith(PNG);
+    const original = imagePrompt("https://example.com/cat.png");
+
+    await expect(
+      inlineRemoteImages(original, {
+        settings: { fetch },
+        canFetch: () => true,
+      }),
+    ).resolves.toBe(original);
+    expect(fetch).not.toHaveBeenCalled();
+
+    const prompt = await inlineRemoteImages(original, {
+      settings: { fetch, always: true },
+      canFetch: () => true,
+    });
+    expect(prompt[1].content[1]).toMatchObject({ data: PNG });
+  });
+
+  it("should only download http URLs with allowHttp", async () => {
+    const fetch = respondWith(PNG);
+    const original = imagePrompt("http://example.com/cat.png");
+
+    await expect(
+      inlineRemoteImages(original, {
+        settings: { fetch },
+        canFetch: () => false,
+      }),
+    ).resolves.toBe(original);
+    expect(fetch).not.toHaveBeenCalled();
+
+    const prompt = await inlineRemoteImages(original, {
+      settings: { fetch, allowHttp: true },
+      canFetch: () => false,
+    });
+    expect(prompt[1].content[1]).toMatchObject({ data: PNG });
+  });
+
+  it("should fall back to the content type of the response", async () => {
+    const fetch = respondWith(new Uint8Array([0, 0, 0, 0]), {
+      headers: { "content-type": "image/heic; charset=binary" },
+    });
+
+    const prompt = await inlineRemoteImages(
+      imagePrompt("https://example.com/photo"),
+      { settings: { fetch }, canFetch: () => false },
+    );
+
+    expect(prompt[1].content[1]).toMatchObject({ mediaType: "image/heic" });
+  });
+
+  it("should reject images larger than maxBytes", async () => {
+    const error: unknown = await inlineRemoteImages(
+      imagePrompt("https://example.com/large.png"),
+      {
+        settings: { fetch: respondWith(PNG), maxBytes: 4 },
+        canFetch: () => false,
+      },
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SAPAIError);
+    expect(error).toMatchObject({
+      message:
+        "Image https://example.com/large.png exceeds the size limit of 4 bytes",
+      url: "https://example.com/large.png",
+      isRetryable: false,
+    });
+  });
+
+  it("should report failed downloads", async () => {
+    const fetch = respondWith(new Uint8Array(0), {
+      status: 404,
+      statusText: "Not Found",
+    });
+
+    const error: unknown = await inlineRemoteImages(
+      imagePrompt("https://example.com/missing.png"),
+      { settings: { fetch }, canFetch: () => false },
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SAPAIError);
+    expect(error).toMatchObject({
+      message:
+        "Failed to download image https://example.com/missing.png: 404 Not Found",
+      statusCode: 404,
+      isRetryable: false,
+    });
+  });
+});
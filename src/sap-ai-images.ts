@@ -0,0 +1,289 @@
+import type {
+  LanguageModelV2FilePart,
+  LanguageModelV2Prompt,
+  LanguageModelV2TextPart,
+} from "@ai-sdk/provider";
+import type { FetchFunction } from "@ai-sdk/provider-utils";
+import { SAPAIError } from "./sap-ai-error";
+
+/**
+ * Settings for downloading remote images and sending them inline.
+ *
+ * The images are downloaded from the server running the provider, using
+ * URLs from the prompt. When prompts contain user input, restrict the
+ * reachable hosts with a custom `fetch` to avoid requests to internal
+ * services.
+ */
+export interface SAPAIImageInliningSettings {
+  /**
+   * Download every remote image, also those the model could fetch itself.
+   * By default, only URLs that do not match the model's `imageUrlPatterns`
+   * are downloaded.
+   * @default false
+   */
+  always?: boolean;
+
+  /**
+   * Also download `http:` URLs. By default, only `https:` URLs are
+   * downloaded and other URLs are passed on to the model.
+   * @default false
+   */
+  allowHttp?: boolean;
+
+  /**
+   * Maximum size of a downloaded image in bytes. Larger images fail the call.
+   * @default 20971520 (20 MB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Fetch implementation used for the downloads, e.g. to add authentication
+   * or a proxy.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Default size limit of downloaded images (20 MB).
+ * @internal
+ */
+const DEFAULT_MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Leading bytes of the image formats accepted by the models.
+ * `undefined` entries match any byte.
+ * @internal
+ */
+const IMAGE_SIGNATURES: { mediaType: string; bytes: (number | undefined)[] }[] =
+  [
+    { mediaType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47] },
+    { mediaType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+    { mediaType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+    {
+      mediaType: "image/webp",
+      // "RIFF", four bytes of file size, "WEBP"
+      bytes: [
+        0x52,
+        0x49,
+        0x46,
+        0x46,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        0x57,
+        0x45,
+        0x42,
+        0x50,
+      ],
+    },
+  ];
+
+/**
+ * Detects the media type of an image from its leading bytes.
+ *
+ * @param data - Image content
+ * @returns The media type, or `undefined` for unknown formats
+ *
+ * @internal
+ */
+export function sniffImageMediaType(data: Uint8Array): string | undefined {
+  return IMAGE_SIGNATURES.find(
+    ({ bytes }) =>
+      data.length >= bytes.length &&
+      bytes.every((byte, index) => byte === undefined || data[index] === byte),
+  )?.mediaType;
+}
+
+/**
+ * Reads a response body, failing as soon as it exceeds the size limit.
+ * @internal
+ */
+async function readLimited(
+  response: Response,
+  url: string,
+  maxBytes: number,
+): Promise<Uint8Array> {
+  const tooLarge = () =>
+    new SAPAIError(
+      `Image ${url} exceeds the size limit of ${String(maxBytes)} bytes`,
+      {
+        url,
+        isRetryable: false,
+      },
+    );
+
+  const contentLength = Number(response.headers.get("content-length"));
+  if (contentLength > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+
+  if (!response.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader: ReadableStreamDefaultReader<Uint8Array> =
+    response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+/**
+ * Downloads an image.
+ * @internal
+ */
+async function downloadImage(
+  url: URL,
+  settings: SAPAIImageInliningSettings,
+  abortSignal: AbortSignal | undefined,
+): Promise<{ data: Uint8Array; mediaType: string | undefined }> {
+  const fetchImage = settings.fetch ?? globalThis.fetch;
+  const href = url.toString();
+
+  let response: Response;
+  try {
+    response = await fetchImage(href, { signal: abortSignal });
+  } catch (error) {
+    if (abortSignal?.aborted) throw error;
+    throw new SAPAIError(`Failed to download image ${href}`, {
+      url: href,
+      cause: error,
+      isRetryable: true,
+    });
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new SAPAIError(
+      `Failed to download image ${href}: ${String(response.status)} ${response.statusText}`,
+      { url: href, statusCode: response.status },
+    );
+  }
+
+  const data = await readLimited(
+    response,
+    href,
+    settings.maxBytes ?? DEFAULT_MAX_IMAGE_BYTES,
+  );
+
+  // Servers often report generic types, the content is more reliable
+  const contentType = response.headers
+    .get("content-type")
+    ?.split(";")[0]
+    .trim()
+    .toLowerCase();
+
+  return {
+    data,
+    mediaType:
+      sniffImageMediaType(data) ??
+      (contentType?.startsWith("image/") ? contentType : undefined),
+  };
+}
+
+/**
+ * Downloads remote images of user messages and replaces their URLs with the
+ * image content, for models that cannot fetch the URLs themselves.
+ *
+ * Each URL is downloaded once per call. The media type of the downloaded
+ * image is detected from its content, falling back to the `Content-Type`
+ * header and the media type of the part.
+ *
+ * @param prompt - Prompt of the call
+ * @param options - Inlining settings, which URLs the model fetches itself,
+ *   and the abort signal of the call
+ * @returns The prompt with inlined images; the same prompt if nothing was downloaded
+ *
+ * @throws {SAPAIError} When a download fails or exceeds `maxBytes`
+ *
+ * @internal
+ */
+export async function inlineRemoteImages(
+  prompt: LanguageModelV2Prompt,
+  options: {
+    settings: SAPAIImageInliningSettings;
+    canFetch: (url: URL) => boolean;
+    abortSignal?: AbortSignal;
+  },
+): Promise<LanguageModelV2Prompt> {
+  const { settings, canFetch, abortSignal } = options;
+
+  const isRemoteImage = (
+    part: LanguageModelV2TextPart | LanguageModelV2FilePart,
+  ): part is LanguageModelV2FilePart & { data: URL } =>
+    part.type === "file" &&
+    part.mediaType.startsWith("image/") &&
+    part.data instanceof URL &&
+    (part.data.protocol === "https:" ||
+      (settings.allowHttp === true && part.data.protocol === "http:")) &&
+    (settings.always === true || !canFetch(part.data));
+
+  const downloads = new Map<string, ReturnType<typeof downloadImage>>();
+
+  for (const message of prompt) {
+    if (message.role !== "user") continue;
+
+    for (const part of message.content) {
+      if (isRemoteImage(part) && !downloads.has(part.data.href)) {
+        downloads.set(
+          part.data.href,
+          downloadImage(part.data, settings, abortSignal),
+        );
+      }
+    }
+  }
+
+  if (downloads.size === 0) {
+    return prompt;
+  }
+
+  const images = new Map(
+    await Promise.all(
+      [...downloads].map(
+        async ([href, download]) => [href, await download] as const,
+      ),
+    ),
+  );
+
+  return prompt.map((message) =>
+    message.role === "user"
+      ? {
+          ...message,
+          content: message.content.map((part) => {
+            if (!isRemoteImage(part)) return part;
+
+            const image = images.get(part.data.href);
+            return image
+              ? {
+                  ...part,
+                  data: image.data,
+                  mediaType: image.mediaType ?? part.mediaType,
+                }
+              : part;
+          }),
+        }
+      : message,
+  );
+}
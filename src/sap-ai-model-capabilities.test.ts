@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { getModelCapabilities } from "./sap-ai-model-capabilities";
+
+describe("getModelCapabilities", () => {
+  it("should return permissive defaults for unknown models", () => {
+    const capabilities = getModelCapabilities("some-new-model");
+
+    expect(capabilities.supportsToolCalling).toBe(true);
+    expect(capabilities.supportsJsonSchema).toBe(true);
+    expect(capabilities.supportsMultipleCompletions).toBe(true);
+    expect(capabilities.toolChoiceFormat).toBe("openai");
+    expect(capabilities.maxOutputTokens).toBeUndefined();
+  });
+
+  it("should resolve Azure OpenAI capabilities", () => {
+    const capabilities = getModelCapabilities("gpt-4.1-mini");
+
+    expect(capabilities.supportsTopK).toBe(false);
+    expect(capabilities.supportsReasoning).toBe(false);
+    expect(capabilities.maxOutputTokens).toBe(32768);
+  });
+
+  it("should resolve reasoning model capabilities", () => {
+    const capabilities = getModelCapabilities("o3-mini");
+
+    expect(capabilities.supportsReasoning).toBe(true);
+    expect(capabilities.reasoningFormat).toBe("openai");
+    expect(capabilities.supportsSampling).toBe(false);
+    expect(capabilities.supportsStopSequences).toBe(false);
+    expect(capabilities.supportsImages).toBe(false);
+  });
+
+  it("should apply model entries over family entries", () => {
+    const claude35 = getModelCapabilities("anthropic--claude-3.5-sonnet");
+    const claude37 = getModelCapabilities("anthropic--claude-3.7-sonnet");
+
+    expect(claude35.toolChoiceFormat).toBe("anthropic");
+    expect(claude35.supportsDocuments).toBe(true);
+    expect(claude35.supportsJsonSchema).toBe(false);
+    expect(claude35.supportsReasoning).toBe(false);
+    expect(claude35.maxOutputTokens).toBe(8192);
+    expect(claude37.supportsReasoning).toBe(true);
+    expect(claude37.reasoningFormat).toBe("anthropic");
+    expect(claude37.maxOutputTokens).toBe(64000);
+  });
+
+  it("should only allow inline images for AWS Bedrock models", () => {
+    const capabilities = getModelCapabilities("amazon--nova-pro");
+
+    expect(
+      capabilities.imageUrlPatterns.some((p) => p.test("https://a.b/c.png")),
+    ).toBe(false);
+    expect(
+      capabilities.imageUrlPatterns.some((p) =>
+        p.test("data:image/png;base64,AA"),
+      ),
+    ).toBe(true);
+  });
+
+  it("should apply overrides by exact model ID", () => {
+    const capabilities = getModelCapabilities("anthropic--claude-5-sonnet", {
+      "anthropic--claude-5-sonnet": {
+        supportsReasoning: true,
+        maxOutputTokens: 128000,
+      },
+    });
+
+    expect(capabilities.supportsReasoning).toBe(true);
+    expect(capabilities.maxOutputTokens).toBe(128000);
+    expect(capabilities.toolChoiceFormat).toBe("anthropic");
+  });
+
+  it("should apply overrides by prefix", () => {
+    const overrides = { "mistralai--*": { supportsJsonSchema: true } };
+
+    expect(
+      getModelCapabilities("mistralai--mistral-large-instruct", overrides)
+        .supportsJsonSchema,
+    ).toBe(true);
+    expect(
+      getModelCapabilities("gpt-4o", { "gpt-4": { supportsSeed: false } })
+        .supportsSeed,
+    ).toBe(true);
+  });
+});
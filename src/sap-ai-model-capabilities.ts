@@ -0,0 +1,311 @@
+/**
+ * Capabilities of a model available through SAP AI Core orchestration.
+ *
+ * Capabilities drive how `SAPAIChatLanguageModel` builds requests: unsupported
+ * parameters are stripped (with `unsupported-setting` warnings), tool choice is
+ * translated into the model family's format, structured output falls back to
+ * `json_object`, images and documents are rejected for models that cannot
+ * read them, and `supportedUrls` tells the AI SDK which image URLs can be
+ * passed through instead of being downloaded.
+ *
+ * @example
+ * ```typescript
+ * // Register a newly released model via provider settings
+ * const provider = createSAPAIProvider({
+ *   modelCapabilities: {
+ *     'anthropic--claude-5-sonnet': { supportsReasoning: true, maxOutputTokens: 64000 },
+ *     'mistralai--*': { supportsJsonSchema: true }
+ *   }
+ * });
+ * ```
+ */
+export interface SAPAIModelCapabilities {
+  /** Whether the model accepts image inputs. */
+  supportsImages: boolean;
+
+  /** Whether the model accepts PDF documents. Text files are inlined as text for all models. */
+  supportsDocuments: boolean;
+
+  /** Whether the model supports tool (function) calling. */
+  supportsToolCalling: boolean;
+
+  /** Whether the model can call multiple tools in a single turn (`parallel_tool_calls`). */
+  supportsParallelToolCalls: boolean;
+
+  /**
+   * Format of the `tool_choice` model parameter.
+   * - `openai`: `'auto' | 'none' | 'required' | { type: 'function', function: { name } }`
+   * - `anthropic`: `{ type: 'auto' | 'any' | 'tool', name? }`
+   * - `bedrock`: Bedrock Converse shape (`{ auto: {} }`, `{ any: {} }`, `{ tool: { name } }`)
+   */
+  toolChoiceFormat: "openai" | "anthropic" | "bedrock";
+
+  /** Whether a call can force a specific tool via `toolChoice`. */
+  supportsSpecificToolChoice: boolean;
+
+  /** Whether the model supports `json_schema` response formats natively. */
+  supportsJsonSchema: boolean;
+
+  /** Whether the model produces reasoning (thinking) output. */
+  supportsReasoning: boolean;
+
+  /**
+   * Format of the reasoning configuration (`SAPAISettings.reasoning`).
+   * - `openai`: `reasoning_effort: 'low' | 'medium' | 'high'`
+   * - `anthropic`: `thinking: { type: 'enabled', budget_tokens }`
+   * - `gemini`: `thinking_config: { thinking_budget, include_thoughts: true }`
+   * - `cohere`: `thinking: { type: 'enabled', token_budget }`
+   */
+  reasoningFormat: "openai" | "anthropic" | "gemini" | "cohere";
+
+  /** Whether the model can return multiple completions (`n` > 1). */
+  supportsMultipleCompletions: boolean;
+
+  /** Whether the model accepts stop sequences. */
+  supportsStopSequences: boolean;
+
+  /** Whether the model accepts `temperature` and `top_p`. */
+  supportsSampling: boolean;
+
+  /** Whether the model accepts `top_k`. */
+  supportsTopK: boolean;
+
+  /** Whether the model accepts `frequency_penalty` and `presence_penalty`. */
+  supportsPenalties: boolean;
+
+  /** Whether the model accepts a `seed`. */
+  supportsSeed: boolean;
+
+  /** Maximum context window in tokens, if known. */
+  maxContextTokens?: number;
+
+  /** Maximum number of output tokens, if known. Larger `max_tokens` values are clamped. */
+  maxOutputTokens?: number;
+
+  /** Image URL patterns the model can fetch itself; other URLs are downloaded by the AI SDK. */
+  imageUrlPatterns: RegExp[];
+}
+
+/**
+ * Image URLs accepted by models that can fetch remote images.
+ * @internal
+ */
+const HTTPS_IMAGE_URL_PATTERNS = [
+  /^https:\/\/.*\.(?:png|jpg|jpeg|gif|webp)$/i,
+  /^data:image\/.*$/,
+];
+
+/**
+ * Image URLs accepted by models that only take inline images (AWS Bedrock).
+ * @internal
+ */
+const DATA_IMAGE_URL_PATTERNS = [/^data:image\/.*$/];
+
+/**
+ * Capabilities assumed for models without a registry entry.
+ * Permissive on purpose, so that unknown models receive every parameter.
+ * @internal
+ */
+const DEFAULT_CAPABILITIES: SAPAIModelCapabilities = {
+  supportsImages: true,
+  supportsDocuments: true,
+  supportsToolCalling: true,
+  supportsParallelToolCalls: true,
+  toolChoiceFormat: "openai",
+  supportsSpecificToolChoice: true,
+  supportsJsonSchema: true,
+  supportsReasoning: false,
+  reasoningFormat: "openai",
+  supportsMultipleCompletions: true,
+  supportsStopSequences: true,
+  supportsSampling: true,
+  supportsTopK: true,
+  supportsPenalties: true,
+  supportsSeed: true,
+  imageUrlPatterns: HTTPS_IMAGE_URL_PATTERNS,
+};
+
+/**
+ * Built-in capability registry.
+ *
+ * Entries are applied in order on top of {@link DEFAULT_CAPABILITIES}:
+ * family entries first, then more specific model entries.
+ *
+ * @internal
+ */
+const MODEL_CAPABILITIES: [RegExp, Partial<SAPAIModelCapabilities>][] = [
+  // Azure OpenAI
+  [
+    /^gpt-/,
+    {
+      supportsTopK: false,
+      maxContextTokens: 128000,
+      maxOutputTokens: 16384,
+    },
+  ],
+  [/^gpt-4\.1/, { maxContextTokens: 1047576, maxOutputTokens: 32768 }],
+  [
+    /^o\d/,
+    {
+      supportsReasoning: true,
+      supportsMultipleCompletions: false,
+      supportsStopSequences: false,
+      supportsSampling: false,
+      supportsTopK: false,
+      supportsPenalties: false,
+      maxContextTokens: 200000,
+      maxOutputTokens: 100000,
+    },
+  ],
+  [/^o3-mini$/, { supportsImages: false }],
+
+  // Google Vertex AI
+  [
+    /^gemini-/,
+    {
+      reasoningFormat: "gemini",
+      maxContextTokens: 1048576,
+      maxOutputTokens: 8192,
+    },
+  ],
+  [/^gemini-2\.5-/, { supportsReasoning: true, maxOutputTokens: 65536 }],
+
+  // AWS Bedrock
+  [
+    /^anthropic--/,
+    {
+      toolChoiceFormat: "anthropic",
+      reasoningFormat: "anthropic",
+      supportsJsonSchema: false,
+      supportsMultipleCompletions: false,
+      supportsPenalties: false,
+      supportsSeed: false,
+      maxContextTokens: 200000,
+      maxOutputTokens: 4096,
+      imageUrlPatterns: DATA_IMAGE_URL_PATTERNS,
+    },
+  ],
+  [/^anthropic--claude-3\.5-/, { maxOutputTokens: 8192 }],
+  [
+    /^anthropic--claude-3\.7-/,
+    { supportsReasoning: true, maxOutputTokens: 64000 },
+  ],
+  [
+    /^anthropic--claude-4-sonnet/,
+    { supportsReasoning: true, maxOutputTokens: 64000 },
+  ],
+  [
+    /^anthropic--claude-4-opus/,
+    { supportsReasoning: true, maxOutputTokens: 32000 },
+  ],
+  [
+    /^amazon--/,
+    {
+      toolChoiceFormat: "bedrock",
+      supportsParallelToolCalls: false,
+      supportsJsonSchema: false,
+      supportsMultipleCompletions: false,
+      supportsPenalties: false,
+      supportsSeed: false,
+      maxContextTokens: 300000,
+      maxOutputTokens: 5000,
+      imageUrlPatterns: DATA_IMAGE_URL_PATTERNS,
+    },
+  ],
+  [
+    /^amazon--nova-micro$/,
+    {
+      supportsImages: false,
+      supportsDocuments: false,
+      maxContextTokens: 128000,
+    },
+  ],
+  [/^amazon--nova-premier$/, { maxContextTokens: 1000000 }],
+
+  // AI Core open source models
+  [
+    /^mistralai--/,
+    {
+      supportsImages: false,
+      supportsDocuments: false,
+      supportsJsonSchema: false,
+      supportsMultipleCompletions: false,
+      supportsTopK: false,
+    },
+  ],
+  [
+    /^cohere--/,
+    {
+      supportsImages: false,
+      supportsDocuments: false,
+      supportsSpecificToolChoice: false,
+      supportsJsonSchema: false,
+      supportsMultipleCompletions: false,
+      reasoningFormat: "cohere",
+    },
+  ],
+  [/^cohere--command-a-reasoning/, { supportsReasoning: true }],
+
+  // Perplexity
+  [
+    /^perplexity--/,
+    {
+      supportsImages: false,
+      supportsDocuments: false,
+      supportsToolCalling: false,
+      supportsParallelToolCalls: false,
+      supportsMultipleCompletions: false,
+    },
+  ],
+];
+
+/**
+ * Checks whether a user-provided registry key matches a model ID.
+ * Keys are exact model IDs or prefixes ending with `*`.
+ *
+ * @internal
+ */
+function matchesModelKey(modelId: string, key: string): boolean {
+  return key.endsWith("*")
+    ? modelId.startsWith(key.slice(0, -1))
+    : modelId === key;
+}
+
+/**
+ * Resolves the capabilities of a model.
+ *
+ * Built-in registry entries are applied first, followed by matching
+ * `overrides` (e.g. from `SAPAIProviderSettings.modelCapabilities`) in
+ * insertion order. Models without any entry get permissive defaults.
+ *
+ * @param modelId - The SAP AI Core model identifier
+ * @param overrides - Additional capabilities keyed by model ID or `prefix*`
+ * @returns The resolved model capabilities
+ *
+ * @example
+ * ```typescript
+ * const capabilities = getModelCapabilities('anthropic--claude-3.7-sonnet');
+ * capabilities.supportsJsonSchema; // false
+ * capabilities.supportsReasoning;  // true
+ * ```
+ */
+export function getModelCapabilities(
+  modelId: string,
+  overrides: Record<string, Partial<SAPAIModelCapabilities>> = {},
+): SAPAIModelCapabilities {
+  let capabilities: SAPAIModelCapabilities = { ...DEFAULT_CAPABILITIES };
+
+  for (const [pattern, entry] of MODEL_CAPABILITIES) {
+    if (pattern.test(modelId)) {
+      capabilities = { ...capabilities, ...entry };
+    }
+  }
+
+  for (const [key, entry] of Object.entries(overrides)) {
+    if (matchesModelKey(modelId, key)) {
+      capabilities = { ...capabilities, ...entry };
+    }
+  }
+
+  return capabilities;
+}
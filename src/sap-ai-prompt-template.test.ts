@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import type { ChatMessage } from "@sap-ai-sdk/orchestration";
+import {
+  findTemplatePlaceholders,
+  renderPromptTemplate,
+  validatePromptTemplate,
+} from "./sap-ai-prompt-template";
+import { APICallError, InvalidArgumentError } from "@ai-sdk/provider";
+import { SAPAITemplateError } from "./sap-ai-error";
+
+describe("prompt templates", () => {
+  const template: ChatMessage[] = [
+    { role: "system", content: "You answer questions about {{?product}}." },
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "{{ ?question }}" },
+        { type: "image_url", image_url: { url: "https://example.com/a.png" } },
+      ],
+    },
+    { role: "user", content: "Answer in {{?language}} for {{?product}}." },
+  ];
+
+  it("should find placeholders in order of first use", () => {
+    expect(findTemplatePlaceholders(template)).toEqual([
+      "product",
+      "question",
+      "language",
+    ]);
+  });
+
+  it("should list placeholders without value or default", () => {
+    expect(
+      validatePromptTemplate(template, {
+        placeholderValues: { product: "SAP EWM" },
+        defaults: { language: "English" },
+      }),
+    ).toEqual(["question"]);
+  });
+
+  it("should not report preserved placeholders", () => {
+    expect(
+      validatePromptTemplate(template, {
+        placeholderValues: { product: "SAP EWM", language: "German" },
+        preserve: ["question"],
+      }),
+    ).toEqual([]);
+  });
+
+  it("should render values and defaults", () => {
+    const rendered = renderPromptTemplate(template, {
+      placeholderValues: { product: "SAP EWM", question: "What is a bin?" },
+      defaults: { language: "English", product: "SAP S/4HANA" },
+    });
+
+    expect(rendered).toEqual([
+      { role: "system", content: "You answer questions about SAP EWM." },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is a bin?" },
+          {
+            type: "image_url",
+            image_url: { url: "https://example.com/a.png" },
+          },
+        ],
+      },
+      { role: "user", content: "Answer in English for SAP EWM." },
+    ]);
+  });
+
+  it("should keep preserved placeholders", () => {
+    const rendered = renderPromptTemplate(
+      [{ role: "system", content: "Context: {{?groundingOutput}}" }],
+      { preserve: ["groundingOutput"] },
+    );
+
+    expect(rendered[0].content).toBe("Context: {{?groundingOutput}}");
+  });
+
+  it("should throw SAPAITemplateError listing unresolved placeholders", () => {
+    const render = () =>
+      renderPromptTemplate(template, { placeholderValues: { product: "X" } });
+
+    expect(render).toThrow(SAPAITemplateError);
+    expect(render).toThrow("question, language");
+    try {
+      render();
+    } catch (error) {
+      expect((error as SAPAITemplateError).missingPlaceholders).toEqual([
+        "question",
+        "language",
+      ]);
+    }
+  });
+
+  it("should not report template errors as failed API calls", () => {
+    let error: unknown;
+    try {
+      renderPromptTemplate(template);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(SAPAITemplateError);
+    expect(InvalidArgumentError.isInstance(error)).toBe(true);
+    expect(APICallError.isInstance(error)).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import type { ChatMessage } from "@sap-ai-sdk/orchestration";
+import { SAPAITemplateError } from "./sap-ai-error";
+
+/**
+ * Options for rendering and validating orchestration prompt templates.
+ */
+export interface SAPAITemplateRenderOptions {
+  /** Values for the `{{?placeholder}}` variables */
+  placeholderValues?: Record<string, string>;
+
+  /** Values used for placeholders without a value in `placeholderValues` */
+  defaults?: Record<string, string>;
+
+  /**
+   * Placeholders that are left unchanged because the orchestration service
+   * fills them, e.g. the output placeholder of the grounding module.
+   */
+  preserve?: string[];
+}
+
+/**
+ * Matches `{{?name}}` placeholders, allowing whitespace inside the braces.
+ * @internal
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*\?\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Applies a function to every text of a message content
+ * (string content or `text` parts).
+ *
+ * @internal
+ */
+function mapMessageText(
+  message: ChatMessage,
+  fn: (text: string) => string,
+): ChatMessage {
+  const { content } = message as { content?: unknown };
+
+  if (typeof content === "string") {
+    return { ...message, content: fn(content) };
+  }
+
+  if (Array.isArray(content)) {
+    return {
+      ...message,
+      content: content.map((part: unknown) => {
+        const { type, text } = part as { type?: unknown; text?: unknown };
+        return type === "text" && typeof text === "string"
+          ? { ...(part as object), text: fn(text) }
+          : part;
+      }),
+    } as ChatMessage;
+  }
+
+  return message;
+}
+
+/**
+ * Lists the placeholders used in a prompt template, in order of first use.
+ *
+ * @param messages - Template messages
+ * @returns Unique placeholder names
+ *
+ * @example
+ * ```typescript
+ * findTemplatePlaceholders([
+ *   { role: 'system', content: 'You answer questions about {{?product}}.' },
+ *   { role: 'user', content: '{{?question}}' }
+ * ]);
+ * // ['product', 'question']
+ * ```
+ */
+export function findTemplatePlaceholders(messages: ChatMessage[]): string[] {
+  const names = new Set<string>();
+
+  for (const message of messages) {
+    mapMessageText(message, (text) => {
+      for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+        names.add(match[1]);
+      }
+      return text;
+    });
+  }
+
+  return [...names];
+}
+
+/**
+ * Lists the placeholders of a prompt template that have no value or default.
+ *
+ * @param messages - Template messages
+ * @param options - Placeholder values, defaults and preserved placeholders
+ * @returns Names of unresolved placeholders; empty if the template can be rendered
+ */
+export function validatePromptTemplate(
+  messages: ChatMessage[],
+  options: SAPAITemplateRenderOptions = {},
+): string[] {
+  const { placeholderValues = {}, defaults = {}, preserve = [] } = options;
+
+  return findTemplatePlaceholders(messages).filter(
+    (name) =>
+      !(name in placeholderValues) &&
+      !(name in defaults) &&
+      !preserve.includes(name),
+  );
+}
+
+/**
+ * Renders a prompt template locally, the way the orchestration service does.
+ *
+ * Placeholders are replaced by their value, falling back to the template
+ * defaults. Use it to preview prompts or to test templates without a
+ * network call.
+ *
+ * @param messages - Template messages
+ * @param options - Placeholder values, defaults and preserved placeholders
+ * @returns Messages with all placeholders replaced
+ *
+ * @throws {SAPAITemplateError} When placeholders have neither a value nor a default
+ *
+ * @example
+ * ```typescript
+ * const messages = renderPromptTemplate(
+ *   [{ role: 'system', content: 'You answer questions about {{?product}}.' }],
+ *   { placeholderValues: { product: 'SAP EWM' } }
+ * );
+ * // [{ role: 'system', content: 'You answer questions about SAP EWM.' }]
+ * ```
+ */
+export function renderPromptTemplate(
+  messages: ChatMessage[],
+  options: SAPAITemplateRenderOptions = {},
+): ChatMessage[] {
+  const missing = validatePromptTemplate(messages, options);
+  if (missing.length > 0) {
+    throw new SAPAITemplateError(
+      `Missing values for prompt template placeholders: ${missing.join(", ")}`,
+      { missingPlaceholders: missing },
+    );
+  }
+
+  const { placeholderValues = {}, defaults = {} } = options;
+
+  return messages.map((message) =>
+    mapMessageText(message, (text) =>
+      text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+        if (name in placeholderValues) return placeholderValues[name];
+        if (name in defaults) return defaults[name];
+        return placeholder;
+      }),
+    ),
+  );
+}
@@ -0,0 +1,108 @@
+import type {
+  FilteringModule,
+  GroundingModule,
+  MaskingModule,
+  TranslationModule,
+} from "@sap-ai-sdk/orchestration";
+import { z } from "zod";
+
+/**
+ * Checks that a value is a plain object.
+ * @internal
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Schema for per-call provider options, read from `providerOptions['sap-ai']`.
+ *
+ * Module configurations are only checked for their top-level shape;
+ * the orchestration service validates the module contents.
+ *
+ * @internal
+ */
+export const sapAIProviderOptionsSchema = z.object({
+  modelVersion: z.string().optional(),
+  placeholderValues: z.record(z.string(), z.string()).optional(),
+  dryRun: z.boolean().optional(),
+  priority: z.number().optional(),
+  cache: z.boolean().optional(),
+  usageTags: z.record(z.string(), z.string()).optional(),
+  modelParams: z
+    .object({
+      maxTokens: z.number().int().positive().optional(),
+      temperature: z.number().min(0).max(2).optional(),
+      topP: z.number().min(0).max(1).optional(),
+      frequencyPenalty: z.number().min(-2).max(2).optional(),
+      presencePenalty: z.number().min(-2).max(2).optional(),
+      n: z.number().int().positive().optional(),
+      parallel_tool_calls: z.boolean().optional(),
+    })
+    .optional(),
+  reasoning: z
+    .object({
+      effort: z.enum(["low", "medium", "high"]).optional(),
+      budgetTokens: z.number().int().positive().optional(),
+    })
+    .optional(),
+  masking: z
+    .custom<MaskingModule>(
+      (value) => isRecord(value) && Array.isArray(value.masking_providers),
+      { message: "masking must contain a masking_providers array" },
+    )
+    .optional(),
+  filtering: z
+    .custom<FilteringModule>(
+      (value) =>
+        isRecord(value) &&
+        (value.input === undefined || isRecord(value.input)) &&
+        (value.output === undefined || isRecord(value.output)),
+      { message: "filtering must be an object with input and/or output" },
+    )
+    .optional(),
+  grounding: z
+    .custom<GroundingModule>(
+      (value) =>
+        isRecord(value) &&
+        isRecord(value.config) &&
+        isRecord(value.config.placeholders),
+      { message: "grounding must contain config.placeholders" },
+    )
+    .optional(),
+  translation: z
+    .custom<TranslationModule>(
+      (value) =>
+        isRecord(value) &&
+        (value.input === undefined || isRecord(value.input)) &&
+        (value.output === undefined || isRecord(value.output)),
+      { message: "translation must be an object with input and/or output" },
+    )
+    .optional(),
+});
+
+/**
+ * Per-call options for SAP AI Core models.
+ *
+ * Passed via `providerOptions['sap-ai']` on `generateText`, `streamText`, etc.
+ * and merged over the model's `SAPAISettings` for that single call.
+ *
+ * @example
+ * ```typescript
+ * const result = await generateText({
+ *   model: provider('gpt-4o'),
+ *   prompt: 'Summarize the ticket from jane@example.com',
+ *   providerOptions: {
+ *     'sap-ai': {
+ *       modelParams: { temperature: 0 },
+ *       masking: {
+ *         masking_providers: [
+ *           buildDpiMaskingProvider({ method: 'anonymization', entities: ['profile-email'] })
+ *         ]
+ *       }
+ *     }
+ *   }
+ * });
+ * ```
+ */
+export type SAPAIProviderOptions = z.infer<typeof sapAIProviderOptionsSchema>;
@@ -59,6 +59,33 @@ describe("createSAPAIProvider", () => {
     expect(model).toBeDefined();
   });
 
+  it("should create embedding models", () => {
+    const provider = createSAPAIProvider();
+    const model = provider.textEmbeddingModel("text-embedding-3-small");
+    expect(model.modelId).toBe("text-embedding-3-small");
+    expect(model.provider).toBe("sap-ai");
+    expect(provider.embedding("text-embedding-3-large").modelId).toBe(
+      "text-embedding-3-large",
+    );
+  });
+
+  it("should apply model capability overrides", () => {
+    const provider = createSAPAIProvider({
+      modelCapabilities: {
+        "anthropic--claude-5-sonnet": { supportsReasoning: true },
+      },
+    });
+    const model = provider("anthropic--claude-5-sonnet");
+    expect(model.capabilities.supportsReasoning).toBe(true);
+    expect(model.capabilities.toolChoiceFormat).toBe("anthropic");
+  });
+
+  it("should have deployment discovery methods", () => {
+    const provider = createSAPAIProvider({ resourceGroup: "production" });
+    expect(typeof provider.listDeployments).toBe("function");
+    expect(typeof provider.listModels).toBe("function");
+  });
+
   it("should throw when called with new keyword", () => {
     const provider = createSAPAIProvider();
     expect(() => {
@@ -6,6 +6,30 @@ import type {
 } from "@sap-ai-sdk/ai-api/internal.js";
 import { SAPAIChatLanguageModel } from "./sap-ai-chat-language-model";
 import { SAPAIModelId, SAPAISettings } from "./sap-ai-chat-settings";
+import { SAPAIEmbeddingModel } from "./sap-ai-embedding-model";
+import type { SAPAIModelCapabilities } from "./sap-ai-model-capabilities";
+import type { SAPAIRetrySettings } from "./sap-ai-retry";
+import type { SAPAICache } from "./sap-ai-cache";
+import type { SAPAIUsageTracker } from "./sap-ai-usage";
+import type { SAPAIImageInliningSettings } from "./sap-ai-images";
+import {
+  SAPAIDeployedModel,
+  SAPAIDeployment,
+  SAPAIListDeploymentsOptions,
+  createDeploymentResolver,
+  createModelValidator,
+  findOrchestrationDeployment,
+  listDeployments,
+  listModels,
+} from "./sap-ai-deployments";
+import {
+  SAPAIRateLimiter,
+  SAPAIRateLimitSettings,
+} from "./sap-ai-rate-limiter";
+import {
+  SAPAIEmbeddingModelId,
+  SAPAIEmbeddingSettings,
+} from "./sap-ai-embedding-settings";
 
 /**
  * SAP AI Provider interface.
@@ -29,6 +53,9 @@ import { SAPAIModelId, SAPAISettings } from "./sap-ai-chat-settings";
  *
  * // Or use the explicit chat method
  * const chatModel = provider.chat('gpt-4o');
+ *
+ * // Create an embedding model
+ * const embeddingModel = provider.textEmbeddingModel('text-embedding-3-small');
  * ```
  */
 export interface SAPAIProvider extends ProviderV2 {
@@ -52,6 +79,61 @@ export interface SAPAIProvider extends ProviderV2 {
    * @returns Configured SAP AI chat language model instance
    */
   chat(modelId: SAPAIModelId, settings?: SAPAISettings): SAPAIChatLanguageModel;
+
+  /**
+   * Create a text embedding model instance.
+   *
+   * The returned model can be used with `embed` and `embedMany` from the AI SDK.
+   *
+   * @param modelId - The SAP AI Core embedding model identifier (e.g., 'text-embedding-3-small')
+   * @param settings - Optional embedding model configuration settings
+   * @returns Configured SAP AI embedding model instance
+   */
+  textEmbeddingModel(
+    modelId: SAPAIEmbeddingModelId,
+    settings?: SAPAIEmbeddingSettings,
+  ): SAPAIEmbeddingModel;
+
+  /**
+   * Alias for `textEmbeddingModel`.
+   *
+   * @param modelId - The SAP AI Core embedding model identifier
+   * @param settings - Optional embedding model configuration settings
+   * @returns Configured SAP AI embedding model instance
+   */
+  embedding(
+    modelId: SAPAIEmbeddingModelId,
+    settings?: SAPAIEmbeddingSettings,
+  ): SAPAIEmbeddingModel;
+
+  /**
+   * Lists the deployments in the resource group of this provider.
+   *
+   * @param options - Optional scenario and status filters
+   * @returns Deployments with status, scenario and deployed model
+   *
+   * @example
+   * ```typescript
+   * const running = await provider.listDeployments({ status: 'RUNNING' });
+   * ```
+   */
+  listDeployments(
+    options?: SAPAIListDeploymentsOptions,
+  ): Promise<SAPAIDeployment[]>;
+
+  /**
+   * Lists the models deployed in the resource group of this provider,
+   * i.e. the foundation model deployments orchestration can send requests to.
+   *
+   * @returns One entry per model deployment, with version and status
+   *
+   * @example
+   * ```typescript
+   * const models = await provider.listModels();
+   * console.log(models.map((model) => `${model.modelId} (${model.status})`));
+   * ```
+   */
+  listModels(): Promise<SAPAIDeployedModel[]>;
 }
 
 /**
@@ -132,6 +214,117 @@ export interface SAPAIProviderSettings {
    * Per-call settings provided to the model will override these.
    */
   defaultSettings?: SAPAISettings;
+
+  /**
+   * Additional or overriding model capabilities.
+   *
+   * Keys are exact model IDs or prefixes ending with `*`. Entries are merged over
+   * the built-in capability registry, so newly released models can be used with
+   * the right parameter handling before the provider knows about them.
+   *
+   * @example
+   * ```typescript
+   * modelCapabilities: {
+   *   'anthropic--claude-5-sonnet': { supportsReasoning: true, maxOutputTokens: 64000 },
+   *   'mistralai--*': { supportsJsonSchema: true }
+   * }
+   * ```
+   */
+  modelCapabilities?: Record<string, Partial<SAPAIModelCapabilities>>;
+
+  /**
+   * Retry policy for chat requests. Without it (or with `false`), every
+   * request is sent once and repeating failed calls is left to the AI SDK's
+   * `maxRetries`.
+   *
+   * Throttled (429), timed out (408) and failed (5xx) requests and network
+   * failures are repeated with exponential backoff and jitter, honoring
+   * `Retry-After` on 429 and 503 responses. Streams are only retried until
+   * the first chunk arrives. Fallback models are tried once the attempts
+   * of a model are used up.
+   *
+   * The AI SDK repeats the whole call on top of these attempts, so a failing
+   * request is sent `maxAttempts * (maxRetries + 1)` times per model. Set
+   * `maxRetries: 0` in the AI SDK call when using this policy.
+   *
+   * Unset fields default to `{ maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 30000, backoffFactor: 2, jitter: true }`.
+   *
+   * @example
+   * ```typescript
+   * retry: { maxAttempts: 5, initialDelayMs: 2000 }
+   * ```
+   */
+  retry?: SAPAIRetrySettings | false;
+
+  /**
+   * Concurrency and rate limits shared by every chat model of this provider.
+   *
+   * Requests over a limit wait in a queue ordered by `SAPAISettings.priority`
+   * and leave it when their call is aborted. The time spent in the queue is
+   * reported in `providerMetadata['sap-ai'].queueWaitMs`. Pass a
+   * `SAPAIRateLimiter` instance to share one budget across providers.
+   *
+   * @example
+   * ```typescript
+   * rateLimit: { maxConcurrency: 4, requestsPerMinute: 120, tokensPerMinute: 200000 }
+   * ```
+   */
+  rateLimit?: SAPAIRateLimitSettings | SAPAIRateLimiter;
+
+  /**
+   * Response cache for chat models of this provider.
+   *
+   * Responses are keyed by a hash of the orchestration config, messages,
+   * placeholder values and deployment. Cached responses are returned by
+   * `doGenerate` and replayed as a stream by `doStream`, with
+   * `providerMetadata['sap-ai'].cached` set to `true`. Dry runs and calls
+   * with `providerOptions['sap-ai'].cache: false` bypass the cache.
+   *
+   * @example
+   * ```typescript
+   * cache: new SAPAIMemoryCache({ maxEntries: 500, ttlMs: 60 * 60 * 1000 })
+   * ```
+   */
+  cache?: SAPAICache;
+
+  /**
+   * Checks before the first request of a chat model that the model (and its
+   * fallback models) has a running deployment in the resource group.
+   *
+   * The deployed models are queried once per provider. Unknown models fail
+   * with a `SAPAIModelNotDeployedError` listing the deployed models, instead
+   * of an error response from the orchestration service.
+   *
+   * @default false
+   */
+  validateModels?: boolean;
+
+  /**
+   * Records the token usage of every completed chat call, per answering
+   * model, resource group and `usageTags`, and estimates its cost from a
+   * price table. Responses served from the response cache are not recorded.
+   *
+   * @example
+   * ```typescript
+   * usageTracker: new SAPAIUsageTracker({
+   *   currency: 'EUR',
+   *   prices: { 'gpt-4o': { input: 2.5, output: 10 } }
+   * })
+   * ```
+   */
+  usageTracker?: SAPAIUsageTracker;
+
+  /**
+   * Downloads remote images and sends them inline, for models that cannot
+   * fetch image URLs themselves (e.g. AWS Bedrock models) or when `always`
+   * is set. Without this setting, image URLs are passed on unchanged.
+   *
+   * @example
+   * ```typescript
+   * imageInlining: { maxBytes: 5 * 1024 * 1024 }
+   * ```
+   */
+  imageInlining?: SAPAIImageInliningSettings;
 }
 
 /**
@@ -156,6 +349,7 @@ export type DeploymentConfig = ResourceGroupConfig | DeploymentIdConfig;
  * - Support for all SAP AI Core orchestration models
  * - Streaming and non-streaming responses
  * - Tool calling support
+ * - Text embeddings
  * - Data masking (DPI)
  * - Content filtering
  *
@@ -213,6 +407,25 @@ export function createSAPAIProvider(
     ? { deploymentId: options.deploymentId }
     : { resourceGroup };
 
+  // One limiter for all models of this provider
+  const rateLimiter =
+    options.rateLimit instanceof SAPAIRateLimiter || !options.rateLimit
+      ? options.rateLimit
+      : new SAPAIRateLimiter(options.rateLimit);
+
+  const listDeployedModels = () =>
+    listModels(resourceGroup, options.destination);
+  const validateModel = options.validateModels
+    ? createModelValidator(resourceGroup, listDeployedModels)
+    : undefined;
+
+  // Resolve the orchestration deployment once for all chat models
+  const deploymentResolver = options.deploymentId
+    ? undefined
+    : createDeploymentResolver(() =>
+        findOrchestrationDeployment(resourceGroup, options.destination),
+      );
+
   // Create the model factory function
   const createModel = (modelId: SAPAIModelId, settings: SAPAISettings = {}) => {
     const mergedSettings: SAPAISettings = {
@@ -228,6 +441,27 @@ export function createSAPAIProvider(
       provider: "sap-ai",
       deploymentConfig,
       destination: options.destination,
+      modelCapabilities: options.modelCapabilities,
+      retry: options.retry,
+      rateLimiter,
+      cache: options.cache,
+      validateModel,
+      deploymentResolver,
+      usageTracker: options.usageTracker,
+      resourceGroup,
+      imageInlining: options.imageInlining,
+    });
+  };
+
+  // Create the embedding model factory function
+  const createEmbeddingModel = (
+    modelId: SAPAIEmbeddingModelId,
+    settings: SAPAIEmbeddingSettings = {},
+  ) => {
+    return new SAPAIEmbeddingModel(modelId, settings, {
+      provider: "sap-ai",
+      deploymentConfig,
+      destination: options.destination,
     });
   };
 
@@ -244,6 +478,11 @@ export function createSAPAIProvider(
   };
 
   provider.chat = createModel;
+  provider.textEmbeddingModel = createEmbeddingModel;
+  provider.embedding = createEmbeddingModel;
+  provider.listDeployments = (listOptions?: SAPAIListDeploymentsOptions) =>
+    listDeployments(resourceGroup, options.destination, listOptions);
+  provider.listModels = listDeployedModels;
 
   return provider as SAPAIProvider;
 }
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import { SAPAIRateLimiter } from "./sap-ai-rate-limiter";
+
+describe("SAPAIRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should start requests immediately within the limits", async () => {
+    const limiter = new SAPAIRateLimiter({ maxConcurrency: 2 });
+
+    const permit = await limiter.acquire();
+
+    expect(permit.waitMs).toBe(0);
+    expect(limiter.running).toBe(1);
+  });
+
+  it("should queue requests over the concurrency limit", async () => {
+    const limiter = new SAPAIRateLimiter({ maxConcurrency: 1 });
+    const first = await limiter.acquire();
+
+    let started = false;
+    const second = limiter.acquire().then((permit) => {
+      started = true;
+      return permit;
+    });
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(started).toBe(false);
+    expect(limiter.pending).toBe(1);
+
+    first.release();
+    const permit = await second;
+
+    expect(permit.waitMs).toBe(100);
+    expect(limiter.running).toBe(1);
+  });
+
+  it("should ignore repeated releases", async () => {
+    const limiter = new SAPAIRateLimiter({ maxConcurrency: 2 });
+    const permit = await limiter.acquire();
+    await limiter.acquire();
+
+    permit.release();
+    permit.release();
+
+    expect(limiter.running).toBe(1);
+  });
+
+  it("should start queued requests by priority", async () => {
+    const limiter = new SAPAIRateLimiter({ maxConcurrency: 1 });
+    const first = await limiter.acquire();
+
+    const order: string[] = [];
+    const requests = [
+      limiter.acquire({ priority: 0 }).then((permit) => {
+        order.push("low");
+        permit.release();
+      }),
+      limiter.acquire({ priority: 5 }).then((permit) => {
+        order.push("high");
+        permit.release();
+      }),
+      limiter.acquire({ priority: 0 }).then((permit) => {
+        order.push("low, later");
+        permit.release();
+      }),
+    ];
+
+    first.release();
+    await Promise.all(requests);
+
+    expect(order).toEqual(["high", "low", "low, later"]);
+  });
+
+  it("should remove aborted requests from the queue", async () => {
+    const limiter = new SAPAIRateLimiter({ maxConcurrency: 1 });
+    await limiter.acquire();
+    const controller = new AbortController();
+
+    const queued = limiter.acquire({ abortSignal: controller.signal });
+    controller.abort(new Error("Cancelled"));
+
+    await expect(queued).rejects.toThrow("Cancelled");
+    expect(limiter.pending).toBe(0);
+  });
+
+  it("should reject requests that are already aborted", async () => {
+    const limiter = new SAPAIRateLimiter({});
+
+    await expect(
+      limiter.acquire({ abortSignal: AbortSignal.abort() }),
+    ).rejects.toThrow();
+  });
+
+  it("should wait for the requests-per-minute budget", async () => {
+    const limiter = new SAPAIRateLimiter({ requestsPerMinute: 2 });
+    (await limiter.acquire()).release();
+    (await limiter.acquire()).release();
+
+    let started = false;
+    const third = limiter.acquire().then((permit) => {
+      started = true;
+      return permit;
+    });
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(started).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect((await third).waitMs).toBe(60_000);
+  });
+
+  it("should wait for the tokens-per-minute budget", async () => {
+    const limiter = new SAPAIRateLimiter({ tokensPerMinute: 1000 });
+    (await limiter.acquire()).release(600);
+    await vi.advanceTimersByTimeAsync(10_000);
+    (await limiter.acquire()).release(600);
+
+    let started = false;
+    const third = limiter.acquire().then((permit) => {
+      started = true;
+      return permit;
+    });
+    await vi.advanceTimersByTimeAsync(49_000);
+    expect(started).toBe(false);
+
+    // The first usage leaves the window after one minute
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect((await third).waitMs).toBe(50_000);
+  });
+
+  it("should not keep the process alive while requests wait", async () => {
+    const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+    const limiter = new SAPAIRateLimiter({ requestsPerMinute: 1 });
+    (await limiter.acquire()).release();
+
+    const second = limiter.acquire();
+    const timer = setTimeoutSpy.mock.results[0].value as NodeJS.Timeout;
+    expect(timer.hasRef()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await expect(second).resolves.toBeDefined();
+  });
+});
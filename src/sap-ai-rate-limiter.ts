@@ -0,0 +1,288 @@
+/**
+ * Limits for requests sent by all models of a provider.
+ *
+ * Requests exceeding a limit wait in a queue ordered by priority, then by
+ * arrival. Budgets are tracked over a sliding window of one minute.
+ *
+ * @example
+ * ```typescript
+ * const provider = createSAPAIProvider({
+ *   rateLimit: { maxConcurrency: 4, requestsPerMinute: 120, tokensPerMinute: 200000 }
+ * });
+ * ```
+ */
+export interface SAPAIRateLimitSettings {
+  /** Maximum number of requests in flight, including open streams */
+  maxConcurrency?: number;
+
+  /** Maximum number of requests started per minute */
+  requestsPerMinute?: number;
+
+  /**
+   * Maximum number of tokens (prompt and completion) per minute.
+   * Usage is known once a request finished, so new requests wait while the
+   * tokens used in the last minute reach the budget.
+   */
+  tokensPerMinute?: number;
+}
+
+/**
+ * Options for a single request waiting for the limiter.
+ */
+export interface SAPAIRateLimitAcquireOptions {
+  /** Requests with higher priority leave the queue first. @default 0 */
+  priority?: number;
+
+  /** Removes the request from the queue when aborted */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Permission to send one request.
+ */
+export interface SAPAIRateLimitPermit {
+  /** Time the request waited in the queue, in milliseconds */
+  waitMs: number;
+
+  /**
+   * Frees the concurrency slot and records the tokens used by the request.
+   * Further calls have no effect.
+   */
+  release(totalTokens?: number): void;
+}
+
+/**
+ * Request waiting in the queue.
+ * @internal
+ */
+interface QueuedRequest {
+  priority: number;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+/** Length of the budget window in milliseconds. */
+const WINDOW_MS = 60_000;
+
+/**
+ * Concurrency and rate limiter shared by the models of a provider.
+ *
+ * Created by `createSAPAIProvider` from `SAPAIProviderSettings.rateLimit`.
+ * It can also be created directly to share one budget across providers.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new SAPAIRateLimiter({ maxConcurrency: 2 });
+ *
+ * const permit = await limiter.acquire({ priority: 1 });
+ * try {
+ *   // send the request
+ * } finally {
+ *   permit.release(usage.totalTokens);
+ * }
+ * ```
+ */
+export class SAPAIRateLimiter {
+  private readonly settings: SAPAIRateLimitSettings;
+  private readonly queue: QueuedRequest[] = [];
+  private readonly requestTimes: number[] = [];
+  private readonly tokenUsage: { time: number; tokens: number }[] = [];
+  private active = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private timerDueAt = 0;
+
+  constructor(settings: SAPAIRateLimitSettings) {
+    this.settings = settings;
+  }
+
+  /** Number of requests waiting in the queue. */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** Number of requests in flight. */
+  get running(): number {
+    return this.active;
+  }
+
+  /**
+   * Waits until a request may be sent.
+   *
+   * @param options - Priority and abort signal of the request
+   * @returns A permit that must be released when the request finished
+   *
+   * @throws The abort reason when the signal aborts while the request waits
+   */
+  acquire(
+    options: SAPAIRateLimitAcquireOptions = {},
+  ): Promise<SAPAIRateLimitPermit> {
+    const { priority = 0, abortSignal } = options;
+
+    if (abortSignal?.aborted) {
+      return Promise.reject(abortReason(abortSignal));
+    }
+
+    return new Promise<SAPAIRateLimitPermit>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(request);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(abortReason(abortSignal));
+          this.dispatch();
+        }
+      };
+
+      const request: QueuedRequest = {
+        priority,
+        enqueuedAt: Date.now(),
+        start: () => {
+          abortSignal?.removeEventListener("abort", onAbort);
+          resolve(this.createPermit(Date.now() - request.enqueuedAt));
+        },
+      };
+
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(request);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Starts a request and returns its permit.
+   * @internal
+   */
+  private createPermit(waitMs: number): SAPAIRateLimitPermit {
+    this.active++;
+    this.requestTimes.push(Date.now());
+
+    let released = false;
+    return {
+      waitMs,
+      release: (totalTokens?: number) => {
+        if (released) return;
+        released = true;
+        this.active--;
+        if (totalTokens) {
+          this.tokenUsage.push({ time: Date.now(), tokens: totalTokens });
+        }
+        this.dispatch();
+      },
+    };
+  }
+
+  /**
+   * Starts queued requests while the limits allow it, and schedules the
+   * next attempt when a per-minute budget is used up.
+   * @internal
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const waitMs = this.getWaitTime();
+      if (waitMs === undefined) return;
+
+      if (waitMs > 0) {
+        this.schedule(waitMs);
+        return;
+      }
+
+      // Highest priority first, then first come, first served
+      const next = this.queue.reduce((best, request) =>
+        request.priority > best.priority ? request : best,
+      );
+      this.queue.splice(this.queue.indexOf(next), 1);
+      next.start();
+    }
+  }
+
+  /**
+   * Computes how long the next request has to wait.
+   *
+   * @returns `0` if it can start now, the time until a per-minute budget
+   *   frees up, or `undefined` if it waits for a running request to finish
+   *
+   * @internal
+   */
+  private getWaitTime(): number | undefined {
+    const { maxConcurrency, requestsPerMinute, tokensPerMinute } =
+      this.settings;
+    const now = Date.now();
+
+    // Drop entries that left the window
+    while (
+      this.requestTimes.length > 0 &&
+      this.requestTimes[0] <= now - WINDOW_MS
+    ) {
+      this.requestTimes.shift();
+    }
+    while (
+      this.tokenUsage.length > 0 &&
+      this.tokenUsage[0].time <= now - WINDOW_MS
+    ) {
+      this.tokenUsage.shift();
+    }
+
+    if (maxConcurrency !== undefined && this.active >= maxConcurrency) {
+      return undefined;
+    }
+
+    let waitMs = 0;
+
+    if (
+      requestsPerMinute !== undefined &&
+      this.requestTimes.length >= requestsPerMinute
+    ) {
+      const oldest =
+        this.requestTimes[this.requestTimes.length - requestsPerMinute];
+      waitMs = Math.max(waitMs, oldest + WINDOW_MS - now);
+    }
+
+    if (tokensPerMinute !== undefined) {
+      let tokens = this.tokenUsage.reduce(
+        (sum, entry) => sum + entry.tokens,
+        0,
+      );
+      // Wait until enough usage has left the window
+      for (const entry of this.tokenUsage) {
+        if (tokens < tokensPerMinute) break;
+        tokens -= entry.tokens;
+        waitMs = Math.max(waitMs, entry.time + WINDOW_MS - now);
+      }
+    }
+
+    return waitMs;
+  }
+
+  /**
+   * Schedules a dispatch once a per-minute budget frees up. A pending dispatch
+   * is moved forward when the new wait is shorter.
+   * @internal
+   */
+  private schedule(waitMs: number): void {
+    const dueAt = Date.now() + waitMs;
+    if (this.timer) {
+      if (dueAt >= this.timerDueAt) return;
+      clearTimeout(this.timer);
+    }
+
+    this.timerDueAt = dueAt;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.dispatch();
+    }, waitMs);
+    // Waiting requests do not keep the process alive; edge runtimes return
+    // timer IDs without unref
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    this.timer.unref?.();
+  }
+}
+
+/**
+ * Returns the abort reason of a signal, or a generic abort error.
+ * @internal
+ */
+function abortReason(abortSignal: AbortSignal | undefined): Error {
+  const reason: unknown = abortSignal?.reason;
+  return reason instanceof Error
+    ? reason
+    : new DOMException("The operation was aborted.", "AbortError");
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from "vitest";
+import { SAPAIError } from "./sap-ai-error";
+import {
+  getErrorStatus,
+  getRetryAfterMs,
+  getRetryDelay,
+  isRetryableError,
+  withRetry,
+} from "./sap-ai-retry";
+
+const httpError = (status: number) =>
+  Object.assign(
+    new Error(`Request failed with status code ${String(status)}`),
+    {
+      cause: { response: { status } },
+    },
+  );
+
+describe("getErrorStatus", () => {
+  it("should read the status of wrapped HTTP errors", () => {
+    expect(getErrorStatus(httpError(429))).toBe(429);
+  });
+
+  it("should read the status of the error itself", () => {
+    expect(getErrorStatus({ status: 503 })).toBe(503);
+  });
+
+  it("should return undefined without a response", () => {
+    expect(getErrorStatus(new Error("socket hang up"))).toBeUndefined();
+  });
+});
+
+describe("isRetryableError", () => {
+  it.each([408, 429, 500, 502, 503, 504])(
+    "should retry status %i",
+    (status) => {
+      expect(isRetryableError(httpError(status))).toBe(true);
+    },
+  );
+
+  it.each([400, 401, 403, 404])("should not retry status %i", (status) => {
+    expect(isRetryableError(httpError(status))).toBe(false);
+  });
+
+  it("should retry network failures", () => {
+    const error = Object.assign(new Error("fetch failed"), {
+      cause: Object.assign(new Error("read ECONNRESET"), {
+        code: "ECONNRESET",
+      }),
+    });
+
+    expect(isRetryableError(error)).toBe(true);
+  });
+
+  it("should not retry aborted calls", () => {
+    const error = new Error("The operation was aborted");
+    error.name = "AbortError";
+
+    expect(isRetryableError(error)).toBe(false);
+  });
+
+  it("should not retry unknown errors", () => {
+    expect(isRetryableError(new Error("Invalid model"))).toBe(false);
+  });
+});
+
+describe("getRetryAfterMs", () => {
+  const withHeaders = (headers: unknown) =>
+    Object.assign(new Error("Too many requests"), {
+      cause: { response: { status: 429, headers } },
+    });
+
+  it("should read delays in seconds", () => {
+    expect(getRetryAfterMs(withHeaders({ "retry-after": "2" }))).toBe(2000);
+  });
+
+  it("should read HTTP dates", () => {
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    const delayMs = getRetryAfterMs(withHeaders({ "retry-after": date }));
+
+    expect(delayMs).toBeGreaterThan(55_000);
+    expect(delayMs).toBeLessThanOrEqual(60_000);
+  });
+
+  it("should read fetch headers", () => {
+    const headers = new Headers({ "Retry-After": "1" });
+    expect(getRetryAfterMs(withHeaders(headers))).toBe(1000);
+  });
+
+  it("should return undefined without the header", () => {
+    expect(getRetryAfterMs(withHeaders({}))).toBeUndefined();
+  });
+});
+
+describe("getRetryDelay", () => {
+  const noJitter = { initialDelayMs: 100, jitter: false };
+
+  it("should back off exponentially", () => {
+    const error = httpError(500);
+
+    expect(getRetryDelay(error, 1, noJitter)).toBe(100);
+    expect(getRetryDelay(error, 2, noJitter)).toBe(200);
+    expect(getRetryDelay(error, 3, noJitter)).toBe(400);
+  });
+
+  it("should not exceed the maximum delay", () => {
+    expect(
+      getRetryDelay(httpError(500), 10, { ...noJitter, maxDelayMs: 1000 }),
+    ).toBe(1000);
+  });
+
+  it("should randomize delays with jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    expect(getRetryDelay(httpError(500), 1, { initialDelayMs: 100 })).toBe(50);
+
+    vi.restoreAllMocks();
+  });
+
+  it("should honor Retry-After on 429 and 503 responses", () => {
+    const error = Object.assign(new Error("Service unavailable"), {
+      cause: { response: { status: 503, headers: { "retry-after": "3" } } },
+    });
+
+    expect(getRetryDelay(error, 1, noJitter)).toBe(3000);
+    expect(getRetryDelay(error, 1, { ...noJitter, maxDelayMs: 500 })).toBe(500);
+  });
+});
+
+describe("withRetry", () => {
+  const retry = { maxAttempts: 3, initialDelayMs: 0 };
+
+  it("should return the result of the first successful attempt", async () => {
+    const call = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValueOnce("ok");
+
+    await expect(withRetry(call, retry)).resolves.toBe("ok");
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it("should stop after the maximum number of attempts", async () => {
+    const error = httpError(503);
+    const call = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(call, retry)).rejects.toBe(error);
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry when disabled", async () => {
+    const call = vi.fn().mockRejectedValue(httpError(429));
+
+    await expect(withRetry(call, false)).rejects.toThrow();
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry without a policy", async () => {
+    const call = vi.fn().mockRejectedValue(httpError(429));
+
+    await expect(withRetry(call, undefined)).rejects.toThrow();
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry after the call was aborted", async () => {
+    const controller = new AbortController();
+    const call = vi.fn().mockImplementation(() => {
+      controller.abort();
+      return Promise.reject(httpError(429));
+    });
+
+    await expect(withRetry(call, retry, controller.signal)).rejects.toThrow();
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("SAPAIError.isRetryable", () => {
+  it("should classify errors by status code", () => {
+    expect(new SAPAIError("Too many requests", { code: 429 }).isRetryable).toBe(
+      true,
+    );
+    expect(new SAPAIError("Bad request", { code: 400 }).isRetryable).toBe(
+      false,
+    );
+  });
+
+  it("should classify wrapped errors", () => {
+    expect(SAPAIError.fromError(httpError(502)).isRetryable).toBe(true);
+    expect(SAPAIError.fromError(new Error("Invalid")).isRetryable).toBe(false);
+  });
+});
@@ -0,0 +1,263 @@
+import { delay } from "@ai-sdk/provider-utils";
+
+/**
+ * Retry policy for failed requests to SAP AI Core.
+ *
+ * Throttled (429), timed out (408) and failed (5xx) requests and network
+ * failures are repeated with exponential backoff. A `Retry-After` header on
+ * 429 and 503 responses takes precedence over the computed backoff.
+ */
+export interface SAPAIRetrySettings {
+  /**
+   * Maximum number of attempts per model, including the first one.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds.
+   * @default 1000
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for any delay, including `Retry-After` values, in milliseconds.
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Factor by which the delay grows with every retry.
+   * @default 2
+   */
+  backoffFactor?: number;
+
+  /**
+   * Randomizes delays between 50% and 100% of the computed backoff,
+   * so that parallel workers do not retry in lockstep.
+   * @default true
+   */
+  jitter?: boolean;
+}
+
+/**
+ * Defaults of the retry policy.
+ * @internal
+ */
+const DEFAULT_RETRY_SETTINGS: Required<SAPAIRetrySettings> = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffFactor: 2,
+  jitter: true,
+};
+
+/**
+ * Error codes of network failures that are worth retrying.
+ * @internal
+ */
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * Checks that a value is a plain object.
+ * @internal
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Finds the HTTP response of an error thrown by the SAP AI SDK.
+ * HTTP errors are wrapped, with the response at `cause.response`.
+ *
+ * @internal
+ */
+export function findResponse(
+  error: unknown,
+): Record<string, unknown> | undefined {
+  let current: unknown = error;
+
+  for (let depth = 0; depth < 5 && isRecord(current); depth++) {
+    if (isRecord(current.response)) {
+      return current.response;
+    }
+    current = current.cause;
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the HTTP status code of an error thrown by the SAP AI SDK.
+ *
+ * @param error - Error thrown by the SAP AI SDK
+ * @returns The HTTP status code, or `undefined` if the request got no response
+ *
+ * @internal
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = findResponse(error)?.status;
+  if (typeof status === "number") {
+    return status;
+  }
+
+  return isRecord(error) && typeof error.status === "number"
+    ? error.status
+    : undefined;
+}
+
+/**
+ * Reads the `Retry-After` header of a failed response.
+ *
+ * @param error - Error thrown by the SAP AI SDK
+ * @returns The requested delay in milliseconds, or `undefined` if not present
+ *
+ * @internal
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = findResponse(error)?.headers;
+  if (!isRecord(headers)) return undefined;
+
+  const value =
+    typeof headers.get === "function"
+      ? (headers.get as (name: string) => unknown)("retry-after")
+      : (headers["retry-after"] ?? headers["Retry-After"]);
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+
+  // Either a number of seconds or an HTTP date
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Checks whether a failed call may succeed when repeated, possibly with
+ * another model: throttling (429), timeouts (408), server errors (5xx)
+ * and network failures.
+ *
+ * Errors that classify themselves via `isRetryable` (such as `SAPAIError`)
+ * are trusted. Aborted calls and client errors such as content filter or
+ * validation errors are not retryable.
+ *
+ * @param error - Error thrown by the SAP AI SDK
+ * @returns True if the call can be retried
+ *
+ * @internal
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isRecord(error) && typeof error.isRetryable === "boolean") {
+    return error.isRetryable;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  let current: unknown = error;
+  for (let depth = 0; depth < 5 && isRecord(current); depth++) {
+    if (current.name === "AbortError") {
+      return false;
+    }
+    if (
+      typeof current.code === "string" &&
+      RETRYABLE_NETWORK_CODES.has(current.code)
+    ) {
+      return true;
+    }
+    current = current.cause;
+  }
+
+  return false;
+}
+
+/**
+ * Computes the delay before the next attempt.
+ *
+ * @param error - Error of the failed attempt
+ * @param attempt - Number of the failed attempt, starting at 1
+ * @param settings - Retry policy
+ * @returns Delay in milliseconds
+ *
+ * @internal
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  settings: SAPAIRetrySettings = {},
+): number {
+  const { initialDelayMs, maxDelayMs, backoffFactor, jitter } = {
+    ...DEFAULT_RETRY_SETTINGS,
+    ...settings,
+  };
+
+  const status = getErrorStatus(error);
+  const retryAfterMs =
+    status === 429 || status === 503 ? getRetryAfterMs(error) : undefined;
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, maxDelayMs);
+  }
+
+  const backoff = Math.min(
+    initialDelayMs * backoffFactor ** (attempt - 1),
+    maxDelayMs,
+  );
+  return jitter ? backoff * (0.5 + Math.random() / 2) : backoff;
+}
+
+/**
+ * Runs a call and repeats it on retryable errors.
+ *
+ * @param call - Sends the request
+ * @param settings - Retry policy; `undefined` or `false` sends the request once
+ * @param abortSignal - Cancels pending retries
+ * @returns Result of the first successful attempt
+ *
+ * @throws The error of the last attempt, or the first non-retryable error
+ *
+ * @internal
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  settings: SAPAIRetrySettings | false | undefined,
+  abortSignal?: AbortSignal,
+): Promise<T> {
+  // Retries are opt-in, the AI SDK's maxRetries already repeats retryable calls
+  const policy =
+    settings === undefined || settings === false
+      ? { maxAttempts: 1 }
+      : settings;
+  const maxAttempts = policy.maxAttempts ?? DEFAULT_RETRY_SETTINGS.maxAttempts;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (
+        attempt >= maxAttempts ||
+        abortSignal?.aborted ||
+        !isRetryableError(error)
+      ) {
+        throw error;
+      }
+
+      await delay(getRetryDelay(error, attempt, policy), { abortSignal });
+    }
+  }
+}
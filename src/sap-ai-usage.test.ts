@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { SAPAIUsageTracker } from "./sap-ai-usage";
+
+const usage = (inputTokens: number, outputTokens: number) => ({
+  inputTokens,
+  outputTokens,
+  totalTokens: inputTokens + outputTokens,
+});
+
+describe("SAPAIUsageTracker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should aggregate usage per model, resource group and tags", () => {
+    const tracker = new SAPAIUsageTracker();
+    tracker.record({
+      modelId: "gpt-4o",
+      resourceGroup: "default",
+      tags: { team: "support" },
+      usage: usage(100, 20),
+    });
+    tracker.record({
+      modelId: "gpt-4o",
+      resourceGroup: "default",
+      tags: { team: "support" },
+      usage: {
+        ...usage(50, 10),
+        cachedInputTokens: 40,
+        reasoningTokens: 5,
+      },
+    });
+    tracker.record({
+      modelId: "gpt-4o",
+      resourceGroup: "default",
+      tags: { team: "sales" },
+      usage: usage(10, 1),
+    });
+
+    const { entries, total } = tracker.snapshot();
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      modelId: "gpt-4o",
+      resourceGroup: "default",
+      tags: { team: "support" },
+      requests: 2,
+      inputTokens: 150,
+      outputTokens: 30,
+      cachedInputTokens: 40,
+      reasoningTokens: 5,
+      totalTokens: 180,
+    });
+    expect(total).toMatchObject({ requests: 3, totalTokens: 191 });
+  });
+
+  it("should not depend on the order of tags", () => {
+    const tracker = new SAPAIUsageTracker();
+    const record = (tags: Record<string, string>) => {
+      tracker.record({
+        modelId: "gpt-4o",
+        resourceGroup: "default",
+        tags,
+        usage: usage(1, 1),
+      });
+    };
+
+    record({ team: "support", project: "chatbot" });
+    record({ project: "chatbot", team: "support" });
+
+    expect(tracker.snapshot().entries).toHaveLength(1);
+  });
+
+  it("should estimate the cost from the price table", () => {
+    const tracker = new SAPAIUsageTracker({
+      currency: "EUR",
+      prices: { "gpt-4o": { input: 2, output: 10, cachedInput: 1 } },
+    });
+
+    expect(
+      tracker.estimateCost("gpt-4o", {
+        ...usage(1_000_000, 100_000),
+        cachedInputTokens: 500_000,
+      }),
+    ).toBe(2.5);
+    expect(
+      tracker.estimateCost("gpt-4o-mini", usage(1000, 100)),
+    ).toBeUndefined();
+  });
+
+  it("should leave the total cost unknown when a model has no price", () => {
+    const tracker = new SAPAIUsageTracker({
+      prices: { "gpt-4o": { input: 2, output: 10 } },
+    });
+    tracker.record({
+      modelId: "gpt-4o",
+      resourceGroup: "default",
+      usage: usage(1_000_000, 0),
+    });
+    tracker.record({
+      modelId: "mistralai--mistral-large-instruct",
+      resourceGroup: "default",
+      usage: usage(1_000_000, 0),
+    });
+
+    const snapshot = tracker.snapshot();
+
+    expect(snapshot.entries[0].estimatedCost).toBe(2);
+    expect(snapshot.entries[1].estimatedCost).toBeUndefined();
+    expect(snapshot.total.estimatedCost).toBeUndefined();
+    expect(tracker.snapshot({ modelId: "gpt-4o" }).total.estimatedCost).toBe(2);
+  });
+
+  it("should filter snapshots by tags and resource group", () => {
+    const tracker = new SAPAIUsageTracker();
+    tracker.record({
+      modelId: "gpt-4o",
+      resourceGroup: "default",
+      tags: { team: "support", project: "chatbot" },
+      usage: usage(10, 1),
+    });
+    tracker.record({
+      modelId: "gpt-4o",
+      resourceGroup: "production",
+      tags: { team: "sales" },
+      usage: usage(20, 2),
+    });
+
+    expect(
+      tracker.snapshot({ tags: { team: "support" } }).total.totalTokens,
+    ).toBe(11);
+    expect(
+      tracker.snapshot({ resourceGroup: "production" }).total.totalTokens,
+    ).toBe(22);
+  });
+
+  it("should export CSV with one column per tag", () => {
+    const tracker = new SAPAIUsageTracker({
+      prices: { "gpt-4o": { input: 2, output: 10 } },
+    });
+    tracker.record({
+      modelId: "gpt-4o",
+      resourceGroup: "default",
+      tags: { team: "support, EMEA" },
+      usage: usage(1_000_000, 0),
+    });
+    tracker.record({
+      modelId: "gpt-4o",
+      resourceGroup: "default",
+      tags: { project: "chatbot" },
+      usage: usage(1_000_000, 0),
+    });
+
+    expect(tracker.toCSV().split("\n")).toEqual([
+      "modelId,resourceGroup,tag:project,tag:team,requests,inputTokens,outputTokens,cachedInputTokens,reasoningTokens,totalTokens,estimatedCost",
+      'gpt-4o,default,,"support, EMEA",1,1000000,0,0,0,1000000,2',
+      "gpt-4o,default,chatbot,,1,1000000,0,0,0,1000000,2",
+    ]);
+  });
+
+  it("should start a new period on reset", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    const tracker = new SAPAIUsageTracker();
+    tracker.record({
+      modelId: "gpt-4o",
+      resourceGroup: "default",
+      usage: usage(10, 1),
+    });
+
+    vi.setSystemTime(new Date("2025-02-01T00:00:00Z"));
+    const previous = tracker.reset();
+
+    expect(previous).toMatchObject({
+      since: "2025-01-01T00:00:00.000Z",
+      until: "2025-02-01T00:00:00.000Z",
+    });
+    expect(previous.total.requests).toBe(1);
+    expect(tracker.snapshot()).toMatchObject({
+      since: "2025-02-01T00:00:00.000Z",
+      entries: [],
+    });
+  });
+});
@@ -0,0 +1,355 @@
+import type { LanguageModelV2Usage } from "@ai-sdk/provider";
+import type { SAPAIModelId } from "./sap-ai-chat-settings";
+
+/**
+ * Price of a model, per one million tokens.
+ *
+ * The currency is up to the caller; it is reported as given in
+ * `SAPAIUsageTrackerOptions.currency`.
+ */
+export interface SAPAIModelPrice {
+  /** Price of one million input (prompt) tokens */
+  input: number;
+
+  /** Price of one million output (completion) tokens, including reasoning tokens */
+  output: number;
+
+  /**
+   * Price of one million input tokens served from the prompt cache.
+   * Defaults to the input price.
+   */
+  cachedInput?: number;
+}
+
+/**
+ * Options of {@link SAPAIUsageTracker}.
+ */
+export interface SAPAIUsageTrackerOptions {
+  /**
+   * Prices per model ID, used to estimate the cost of the recorded usage.
+   * Models without a price are tracked without cost.
+   */
+  prices?: Partial<Record<SAPAIModelId, SAPAIModelPrice>>;
+
+  /** Currency of the prices, copied into snapshots (e.g. `EUR`) */
+  currency?: string;
+}
+
+/**
+ * Token usage of one call, as recorded by the provider.
+ */
+export interface SAPAIUsageRecord {
+  /** ID of the model that answered */
+  modelId: string;
+
+  /** SAP AI Core resource group of the call */
+  resourceGroup: string;
+
+  /** Custom tags of the call, e.g. team or cost center */
+  tags?: Record<string, string>;
+
+  /** Token usage reported by the model */
+  usage: LanguageModelV2Usage;
+}
+
+/**
+ * Token counts and estimated cost.
+ */
+export interface SAPAIUsageTotals {
+  /** Number of recorded calls */
+  requests: number;
+
+  /** Input (prompt) tokens */
+  inputTokens: number;
+
+  /** Output (completion) tokens */
+  outputTokens: number;
+
+  /** Input tokens served from the prompt cache */
+  cachedInputTokens: number;
+
+  /** Output tokens spent on reasoning */
+  reasoningTokens: number;
+
+  /** Input and output tokens */
+  totalTokens: number;
+
+  /** Estimated cost, if all contained models have a price */
+  estimatedCost?: number;
+}
+
+/**
+ * Usage aggregated per model, resource group and tags.
+ */
+export interface SAPAIUsageEntry extends SAPAIUsageTotals {
+  /** Model ID */
+  modelId: string;
+
+  /** SAP AI Core resource group */
+  resourceGroup: string;
+
+  /** Custom tags */
+  tags: Record<string, string>;
+}
+
+/**
+ * Usage recorded by a tracker.
+ */
+export interface SAPAIUsageSnapshot {
+  /** Start of the recording period (ISO 8601) */
+  since: string;
+
+  /** Time of the snapshot (ISO 8601) */
+  until: string;
+
+  /** Currency of the estimated costs */
+  currency?: string;
+
+  /** Usage per model, resource group and tags */
+  entries: SAPAIUsageEntry[];
+
+  /** Usage of all entries */
+  total: SAPAIUsageTotals;
+}
+
+/**
+ * Filter for snapshots of a tracker.
+ */
+export interface SAPAIUsageFilter {
+  /** Only include this model */
+  modelId?: string;
+
+  /** Only include this resource group */
+  resourceGroup?: string;
+
+  /** Only include entries with all of these tag values */
+  tags?: Record<string, string>;
+}
+
+/**
+ * Creates empty totals.
+ * @internal
+ */
+function emptyTotals(): SAPAIUsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedInputTokens: 0,
+    reasoningTokens: 0,
+    totalTokens: 0,
+    estimatedCost: 0,
+  };
+}
+
+/**
+ * Adds totals to a sum; the cost becomes unknown if either cost is unknown.
+ * @internal
+ */
+function addTotals(sum: SAPAIUsageTotals, totals: SAPAIUsageTotals): void {
+  sum.requests += totals.requests;
+  sum.inputTokens += totals.inputTokens;
+  sum.outputTokens += totals.outputTokens;
+  sum.cachedInputTokens += totals.cachedInputTokens;
+  sum.reasoningTokens += totals.reasoningTokens;
+  sum.totalTokens += totals.totalTokens;
+  sum.estimatedCost =
+    sum.estimatedCost !== undefined && totals.estimatedCost !== undefined
+      ? sum.estimatedCost + totals.estimatedCost
+      : undefined;
+}
+
+/**
+ * Quotes a value for CSV.
+ * @internal
+ */
+function csvValue(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Aggregates the token usage of chat calls and estimates their cost.
+ *
+ * Attach it to a provider via `SAPAIProviderSettings.usageTracker`. Every
+ * completed `doGenerate` and `doStream` call is recorded for the model that
+ * answered, the resource group and the `usageTags` of the call. Responses
+ * served from the response cache are not recorded.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new SAPAIUsageTracker({
+ *   currency: 'EUR',
+ *   prices: { 'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 } }
+ * });
+ * const provider = createSAPAIProvider({ usageTracker: tracker });
+ *
+ * await generateText({
+ *   model: provider('gpt-4o'),
+ *   prompt: 'Hello!',
+ *   providerOptions: { 'sap-ai': { usageTags: { team: 'support' } } }
+ * });
+ *
+ * console.log(tracker.snapshot({ tags: { team: 'support' } }).total);
+ * ```
+ */
+export class SAPAIUsageTracker {
+  private readonly options: SAPAIUsageTrackerOptions;
+  private readonly entries = new Map<string, SAPAIUsageEntry>();
+  private since = new Date();
+
+  constructor(options: SAPAIUsageTrackerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Records the usage of one call.
+   *
+   * @param record - Model, resource group, tags and token usage of the call
+   */
+  record(record: SAPAIUsageRecord): void {
+    const tags = Object.fromEntries(
+      Object.entries(record.tags ?? {}).sort(([a], [b]) =>
+        a < b ? -1 : a > b ? 1 : 0,
+      ),
+    );
+    const key = JSON.stringify([record.modelId, record.resourceGroup, tags]);
+
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        modelId: record.modelId,
+        resourceGroup: record.resourceGroup,
+        tags,
+        ...emptyTotals(),
+      };
+      this.entries.set(key, entry);
+    }
+
+    const { usage } = record;
+    const inputTokens = usage.inputTokens ?? 0;
+    const outputTokens = usage.outputTokens ?? 0;
+
+    addTotals(entry, {
+      requests: 1,
+      inputTokens,
+      outputTokens,
+      cachedInputTokens: usage.cachedInputTokens ?? 0,
+      reasoningTokens: usage.reasoningTokens ?? 0,
+      totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+      estimatedCost: this.estimateCost(record.modelId, usage),
+    });
+  }
+
+  /**
+   * Estimates the cost of a call from the price table.
+   *
+   * @param modelId - Model ID
+   * @param usage - Token usage of the call
+   * @returns The estimated cost, or `undefined` if the model has no price
+   */
+  estimateCost(
+    modelId: string,
+    usage: LanguageModelV2Usage,
+  ): number | undefined {
+    const price = this.options.prices?.[modelId];
+    if (!price) return undefined;
+
+    const cachedInputTokens = usage.cachedInputTokens ?? 0;
+    const uncachedInputTokens = (usage.inputTokens ?? 0) - cachedInputTokens;
+
+    return (
+      (uncachedInputTokens * price.input +
+        cachedInputTokens * (price.cachedInput ?? price.input) +
+        (usage.outputTokens ?? 0) * price.output) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Returns the usage recorded since creation or the last reset.
+   *
+   * @param filter - Optional model, resource group and tag filter
+   * @returns Usage per model, resource group and tags, with totals
+   */
+  snapshot(filter: SAPAIUsageFilter = {}): SAPAIUsageSnapshot {
+    const entries = [...this.entries.values()]
+      .filter(
+        (entry) =>
+          (filter.modelId === undefined || entry.modelId === filter.modelId) &&
+          (filter.resourceGroup === undefined ||
+            entry.resourceGroup === filter.resourceGroup) &&
+          Object.entries(filter.tags ?? {}).every(
+            ([name, value]) => entry.tags[name] === value,
+          ),
+      )
+      .map((entry) => ({ ...entry, tags: { ...entry.tags } }));
+
+    const total = emptyTotals();
+    for (const entry of entries) {
+      addTotals(total, entry);
+    }
+
+    return {
+      since: this.since.toISOString(),
+      until: new Date().toISOString(),
+      currency: this.options.currency,
+      entries,
+      total,
+    };
+  }
+
+  /**
+   * Exports a snapshot as CSV, with one row per entry and one column per tag.
+   *
+   * @param filter - Optional model, resource group and tag filter
+   * @returns CSV text with a header row
+   */
+  toCSV(filter: SAPAIUsageFilter = {}): string {
+    const { entries } = this.snapshot(filter);
+    const tagNames = [
+      ...new Set(entries.flatMap((entry) => Object.keys(entry.tags))),
+    ].sort();
+
+    const header = [
+      "modelId",
+      "resourceGroup",
+      ...tagNames.map((name) => `tag:${name}`),
+      "requests",
+      "inputTokens",
+      "outputTokens",
+      "cachedInputTokens",
+      "reasoningTokens",
+      "totalTokens",
+      "estimatedCost",
+    ];
+    const rows = entries.map((entry) => [
+      entry.modelId,
+      entry.resourceGroup,
+      ...tagNames.map((name) => entry.tags[name]),
+      entry.requests,
+      entry.inputTokens,
+      entry.outputTokens,
+      entry.cachedInputTokens,
+      entry.reasoningTokens,
+      entry.totalTokens,
+      entry.estimatedCost,
+    ]);
+
+    return [header, ...rows]
+      .map((row) => row.map(csvValue).join(","))
+      .join("\n");
+  }
+
+  /**
+   * Clears the recorded usage and starts a new recording period.
+   *
+   * @returns The usage recorded until the reset
+   */
+  reset(): SAPAIUsageSnapshot {
+    const snapshot = this.snapshot();
+    this.entries.clear();
+    this.since = new Date();
+    return snapshot;
+  }
+}